@@ -0,0 +1,68 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { JsonSchema } from "./providers";
+
+// --- CITATIONS ---
+// The final report cites the participant responses its points come from. The coordinator
+// names them by round and provider/model, as they appear in the discussion history it is shown.
+// Numbering is shared by the report view and the exports, so footnote [2] means the same everywhere.
+
+/** One participant's response in one round. */
+export interface Citation {
+  round: number;
+  provider: string;
+  model: string;
+}
+
+export const CITATION_SCHEMA: JsonSchema = {
+  type: 'array',
+  description: "The participant responses this is drawn from, as round number and provider/model from the discussion history.",
+  items: { type: 'object', properties: {
+      round: { type: 'integer' }, provider: { type: 'string' }, model: { type: 'string' },
+    }, required: ["round", "provider", "model"],
+  },
+};
+
+const citationKey = ({ round, provider, model }: Citation) => `${round}:${provider}/${model}`;
+
+export const isSameSource = (a: Citation, b: Citation): boolean => citationKey(a) === citationKey(b);
+
+/**
+ * Keeps the citations that point at a response in `responses`, once each. Coordinators
+ * sometimes cite a round a participant sat out, and a dead link is worse than none.
+ */
+export const validateCitations = (citations: Citation[] | undefined, responses: Citation[]): Citation[] => {
+  const known = new Set(responses.map(citationKey));
+  const seen = new Set<string>();
+  return (citations || []).filter(citation => {
+    const key = citationKey(citation);
+    if (!known.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export interface Footnotes {
+  /** Each distinct source once, in order of first citation; footnote n is `notes[n - 1]`. */
+  notes: Citation[];
+  /** The footnote numbers for one point's citations. */
+  numbersFor: (citations?: Citation[]) => number[];
+}
+
+/** Numbers the sources in the order the report first cites them. */
+export const createFootnotes = (groups: (Citation[] | undefined)[]): Footnotes => {
+  const numbers = new Map<string, number>();
+  const notes: Citation[] = [];
+  groups.forEach(group => group?.forEach(citation => {
+    if (numbers.has(citationKey(citation))) return;
+    notes.push(citation);
+    numbers.set(citationKey(citation), notes.length);
+  }));
+  return { notes, numbersFor: citations => (citations || []).map(c => numbers.get(citationKey(c))!).filter(Boolean) };
+};
+
+/** Footnote marks for plain-text exports, e.g. "[1][3]". */
+export const formatFootnoteMarks = (numbers: number[]): string => numbers.map(n => `[${n}]`).join('');
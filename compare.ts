@@ -0,0 +1,47 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+// --- SIDE-BY-SIDE COMPARISON ---
+// Answers are compared sentence by sentence: a sentence is highlighted when most of
+// its words appear in none of the other answers, i.e. it says something only this model said.
+
+export interface AnswerSegment {
+  text: string;
+  /** Set when the other answers share less than half of this sentence's words. */
+  distinct: boolean;
+}
+
+export interface AnswerStats {
+  words: number;
+  characters: number;
+}
+
+const SENTENCE_END = /(?<=[.!?。！？\n])/;
+
+// Chinese, Japanese and Korean runs have no spaces between words.
+const CJK = /[\u3040-\u9fff\uac00-\ud7af]/;
+const WORD = /[\u3040-\u9fff\uac00-\ud7af]+|(?:(?![\u3040-\u9fff\uac00-\ud7af])[\p{L}\p{N}])+/gu;
+
+/** Lowercased words, with CJK runs split into character pairs as context.ts does for its ranking. */
+const toWords = (text: string): string[] =>
+  (text.toLowerCase().match(WORD) || []).flatMap(word =>
+    !CJK.test(word) || word.length < 2 ? [word] : Array.from({ length: word.length - 1 }, (_, i) => word.slice(i, i + 2)));
+
+/** Each CJK character counts as a word, the usual convention for word counts in those languages. */
+export const getAnswerStats = (text: string): AnswerStats => {
+  const words: string[] = text.match(WORD) || [];
+  return { words: words.reduce((count, word) => count + (CJK.test(word) ? word.length : 1), 0), characters: text.trim().length };
+};
+
+/** Splits `answer` into sentences and marks the ones the `others` don't cover. */
+export const highlightDistinct = (answer: string, others: string[]): AnswerSegment[] => {
+  const shared = new Set(others.flatMap(toWords));
+  if (shared.size === 0) return [{ text: answer, distinct: false }];
+  return answer.split(SENTENCE_END).filter(Boolean).map(text => {
+    const words = toWords(text);
+    const covered = words.filter(word => shared.has(word)).length;
+    return { text, distinct: words.length > 0 && covered / words.length < 0.5 };
+  });
+};
@@ -0,0 +1,79 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+// --- CONSENSUS SCORING ---
+// The coordinator only extracts who holds which position on each key question;
+// the agreement numbers themselves are computed here, so they can't be talked up.
+
+/** One participant's stance on a key question, as a short label shared by everyone who holds it. */
+export interface ParticipantPosition {
+  provider: string;
+  model: string;
+  position: string;
+}
+
+export interface KeyQuestion {
+  question: string;
+  positions: ParticipantPosition[];
+}
+
+/** Participants grouped by the position they hold, largest camp first. */
+export interface PositionCamp {
+  position: string;
+  participants: string[];
+}
+
+export interface QuestionScore {
+  question: string;
+  /** Share of participants in the largest camp, from 0 to 1. */
+  agreement: number;
+  camps: PositionCamp[];
+}
+
+export interface ConsensusScore {
+  /** Mean agreement over the questions at least two participants took a position on. */
+  agreement: number;
+  questions: QuestionScore[];
+}
+
+const normalizePosition = (position: string) => position.trim().toLowerCase().replace(/[.!]+$/, '');
+
+export const scoreQuestion = ({ question, positions }: KeyQuestion): QuestionScore => {
+  const camps = new Map<string, PositionCamp>();
+  positions.forEach(({ provider, model, position }) => {
+    const key = normalizePosition(position);
+    if (!key) return;
+    const camp = camps.get(key) || { position: position.trim(), participants: [] };
+    camp.participants.push(`${provider}/${model}`);
+    camps.set(key, camp);
+  });
+  const sorted = [...camps.values()].sort((a, b) => b.participants.length - a.participants.length);
+  const total = sorted.reduce((sum, camp) => sum + camp.participants.length, 0);
+  return { question, agreement: total > 0 ? sorted[0].participants.length / total : 0, camps: sorted };
+};
+
+export const scoreConsensus = (questions: KeyQuestion[]): ConsensusScore => {
+  const scored = questions.map(scoreQuestion);
+  // A question only one participant addressed says nothing about agreement.
+  const contested = scored.filter(q => q.camps.reduce((sum, camp) => sum + camp.participants.length, 0) >= 2);
+  const agreement = contested.length > 0 ? contested.reduce((sum, q) => sum + q.agreement, 0) / contested.length : 0;
+  return { agreement, questions: scored };
+};
+
+/** Questions on which participants split into more than one camp. */
+export const getDisputedPoints = (score: ConsensusScore): QuestionScore[] =>
+  score.questions.filter(q => q.camps.length > 1);
+
+export const formatAgreement = (agreement: number): string => `${Math.round(agreement * 100)}%`;
+
+/** Plain-text summary for the coordinator's view of the discussion history. */
+export const describeConsensus = (score: ConsensusScore): string => {
+  let text = `Measured agreement: ${formatAgreement(score.agreement)}\n`;
+  getDisputedPoints(score).forEach(q => {
+    text += `Disputed: ${q.question}\n`;
+    q.camps.forEach(camp => { text += `  - "${camp.position}": ${camp.participants.join(', ')}\n`; });
+  });
+  return text;
+};
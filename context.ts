@@ -0,0 +1,213 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { estimateTokens } from "./memory";
+
+// --- CONTEXT BUDGETING ---
+// Coordinator prompts carry the uploaded documents and the whole discussion. When that
+// outgrows the coordinator's context window, older rounds shrink to their summaries and
+// documents are cut down to the excerpts most relevant to the call at hand.
+
+/** Upper bound on the tokens kept free for the coordinator's reply; small windows keep a quarter. */
+const MAX_RESPONSE_RESERVE_TOKENS = 8192;
+
+/** Target size of one document excerpt. */
+const CHUNK_TOKENS = 500;
+
+export interface SourceDocument {
+  name: string;
+  text: string;
+  /** Set for fetched web pages: the URL the text came from, noted next to it in the prompt. */
+  source?: string;
+}
+
+/** One round of the discussion as the coordinator sees it. */
+export interface RoundText {
+  round: number;
+  summary: string;
+  /** Left out once the round is summarized; the next round's summary covers them. */
+  responses: { label: string; text: string }[];
+  /** Sent even for summarized rounds, e.g. the measured consensus. */
+  notes?: string;
+}
+
+export interface DocumentTrim {
+  name: string;
+  kept_chunks: number;
+  total_chunks: number;
+}
+
+/** What went into a coordinator prompt and what had to give way. Stored on the round. */
+export interface ContextReport {
+  budget_tokens: number;
+  used_tokens: number;
+  /** Rounds sent as their summary only. */
+  summarized_rounds: number[];
+  /** Responses of the latest round cut short because even that round didn't fit whole. */
+  shortened_responses: number;
+  /** Documents reduced to their most relevant excerpts. */
+  trimmed_documents: DocumentTrim[];
+}
+
+export interface ContextInput {
+  contextWindow: number;
+  /** Everything sent regardless of the budget: system instruction, topic, participants, the request itself. */
+  fixedText: string;
+  documents: SourceDocument[];
+  rounds: RoundText[];
+  /** What the call is about; document excerpts are ranked by the terms they share with it. */
+  query: string;
+}
+
+export interface BuiltContext {
+  documentsText: string;
+  historyText: string;
+  report: ContextReport;
+}
+
+export const formatDocuments = (documents: SourceDocument[]): string => {
+  const files = documents.filter(d => !d.source);
+  const pages = documents.filter(d => d.source);
+  let text = '';
+  if (files.length > 0) text += `Uploaded Files:\n${files.map(d => `\n--- File: ${d.name} ---\n${d.text}\n`).join('')}\n`;
+  if (pages.length > 0) text += `Web Pages (fetched text; name the source URL when you rely on one):\n${pages.map(d => `\n--- Page: ${d.name} (source: ${d.source}) ---\n${d.text}\n`).join('')}\n`;
+  return text;
+};
+
+const truncateToTokens = (text: string, tokens: number): string => {
+  const estimate = estimateTokens(text);
+  return estimate <= tokens ? text : `${text.slice(0, Math.floor(text.length * tokens / estimate)).trimEnd()} [...]`;
+};
+
+const formatRound = ({ round, summary, responses, notes }: RoundText, summarized: boolean, responseLimit = Infinity): string => {
+  let text = `--- Round ${round} Summary ---\n${summary}\n`;
+  if (summarized && responses.length > 0) {
+    text += `(Round ${round} responses are left out to fit the context window; the following summary covers them.)\n`;
+  } else if (responses.length > 0) {
+    text += `\n--- Round ${round} Execution Results ---\n`;
+    responses.forEach(({ label, text: response }) => { text += `[${label} RESPONSE]:\n${truncateToTokens(response, responseLimit)}\n\n`; });
+  }
+  if (notes) text += `${notes}\n`;
+  return text;
+};
+
+export const formatHistory = (rounds: RoundText[]): string => rounds.map(r => formatRound(r, false)).join('');
+
+/** Splits text into excerpts of about CHUNK_TOKENS, breaking between paragraphs where it can. */
+export const chunkText = (text: string): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    if (current && estimateTokens(current + paragraph) > CHUNK_TOKENS) { chunks.push(current); current = ''; }
+    while (estimateTokens(paragraph) > CHUNK_TOKENS) {
+      const cut = Math.floor(paragraph.length * CHUNK_TOKENS / estimateTokens(paragraph));
+      chunks.push(paragraph.slice(0, cut));
+      paragraph = paragraph.slice(cut);
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current.trim()) chunks.push(current);
+  return chunks;
+};
+
+/** Lowercased words, plus character pairs for CJK text, which has no spaces to split on. */
+const toTerms = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).flatMap(word => {
+    if (!/[\u3000-\u9fff\uac00-\ud7af]/.test(word)) return word.length > 2 ? [word] : [];
+    return word.length < 2 ? [word] : Array.from({ length: word.length - 1 }, (_, i) => word.slice(i, i + 2));
+  });
+
+/**
+ * Keeps the excerpts that share the most (rare) terms with the query, in document order,
+ * until the budget is spent. Whole documents go through untouched when they fit.
+ */
+const selectExcerpts = (documents: SourceDocument[], query: string, budget: number): { text: string; trimmed: DocumentTrim[] } => {
+  const full = formatDocuments(documents);
+  if (estimateTokens(full) <= budget) return { text: full, trimmed: [] };
+
+  const chunks = documents.flatMap((doc, docIndex) => chunkText(doc.text).map(text => ({ docIndex, text, terms: new Set(toTerms(text)) })));
+  const queryTerms = [...new Set(toTerms(query))];
+  // Terms found in every excerpt say nothing about which one is relevant.
+  const weight = (term: string) => Math.log(1 + chunks.length / (1 + chunks.filter(c => c.terms.has(term)).length));
+  const weights = new Map(queryTerms.map(term => [term, weight(term)]));
+  const score = (terms: Set<string>) => queryTerms.reduce((sum, term) => sum + (terms.has(term) ? weights.get(term)! : 0), 0);
+
+  const kept = new Set<typeof chunks[number]>();
+  let used = estimateTokens(formatDocuments(documents.map(d => ({ ...d, text: '' }))));
+  [...chunks].sort((a, b) => score(b.terms) - score(a.terms)).forEach(chunk => {
+    const cost = estimateTokens(chunk.text) + 2;
+    if (used + cost > budget) return;
+    kept.add(chunk);
+    used += cost;
+  });
+
+  const perDocument = documents.map((doc, docIndex) => {
+    const own = chunks.filter(c => c.docIndex === docIndex);
+    return { doc, total: own.length, kept: own.filter(c => kept.has(c)) };
+  });
+  const excerpts = perDocument.map(({ doc, total, kept }) => kept.length === total ? doc : {
+    name: `${doc.name} (${kept.length} of ${total} excerpts, chosen for relevance)`,
+    text: kept.map(c => c.text).join('\n[...]\n'),
+  });
+  const trimmed = perDocument.filter(({ total, kept }) => kept.length < total)
+    .map(({ doc, total, kept }) => ({ name: doc.name, kept_chunks: kept.length, total_chunks: total }));
+  return { text: formatDocuments(excerpts), trimmed };
+};
+
+/**
+ * Summarizes rounds oldest first until the history fits. The latest round with responses keeps
+ * them, shortened evenly if even that is too much.
+ */
+const fitHistory = (rounds: RoundText[], budget: number): { text: string; summarizedRounds: number[]; shortenedResponses: number } => {
+  const fullTokens = rounds.map(r => estimateTokens(formatRound(r, false)));
+  const summaryTokens = rounds.map(r => estimateTokens(formatRound(r, true)));
+  const latest = rounds.map(r => r.responses.length > 0).lastIndexOf(true);
+  let used = fullTokens.reduce((sum, n) => sum + n, 0);
+  let summarized = 0;
+  while (summarized < latest && used > budget) {
+    used -= fullTokens[summarized] - summaryTokens[summarized];
+    summarized++;
+  }
+  let responseLimit = Infinity;
+  let shortenedResponses = 0;
+  if (used > budget && latest >= 0) {
+    const { responses } = rounds[latest];
+    const responseTokens = responses.reduce((sum, r) => sum + estimateTokens(r.text), 0);
+    responseLimit = Math.max(0, Math.floor((budget - (used - responseTokens)) / responses.length));
+    shortenedResponses = responses.filter(r => estimateTokens(r.text) > responseLimit).length;
+  }
+  const text = rounds.map((r, i) => formatRound(r, i < summarized, i === latest ? responseLimit : Infinity)).join('');
+  return { text, summarizedRounds: rounds.slice(0, summarized).filter(r => r.responses.length > 0).map(r => r.round), shortenedResponses };
+};
+
+/**
+ * Fits documents and history into what the context window leaves after the fixed text and the reply.
+ * Documents may use whatever the history doesn't need, and at least half the budget if they need that much.
+ */
+export const buildContext = ({ contextWindow, fixedText, documents, rounds, query }: ContextInput): BuiltContext => {
+  const reserve = Math.min(MAX_RESPONSE_RESERVE_TOKENS, Math.floor(contextWindow / 4));
+  const budget = Math.max(0, contextWindow - reserve - estimateTokens(fixedText));
+  const documentTokens = estimateTokens(formatDocuments(documents));
+  const historyTokens = estimateTokens(formatHistory(rounds));
+
+  const documentBudget = Math.min(documentTokens, Math.max(budget - historyTokens, Math.floor(budget / 2)));
+  const excerpts = selectExcerpts(documents, query, documentBudget);
+  const history = fitHistory(rounds, budget - estimateTokens(excerpts.text));
+  return {
+    documentsText: excerpts.text,
+    historyText: history.text,
+    report: {
+      budget_tokens: budget,
+      used_tokens: estimateTokens(excerpts.text) + estimateTokens(history.text),
+      summarized_rounds: history.summarizedRounds,
+      shortened_responses: history.shortenedResponses,
+      trimmed_documents: excerpts.trimmed,
+    },
+  };
+};
+
+/** Whether anything was left out or cut short. */
+export const isTrimmed = (report: ContextReport): boolean =>
+  report.summarized_rounds.length > 0 || report.shortened_responses > 0 || report.trimmed_documents.length > 0;
@@ -0,0 +1,224 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { strFromU8, unzipSync, Unzipped } from "fflate";
+import { getDocument, GlobalWorkerOptions } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { ImageInput } from "./providers";
+
+// --- DOCUMENT EXTRACTION ---
+// Uploads are turned into plain text in the browser before they go into any prompt.
+// DOCX and XLSX are zipped XML, so they only need unzipping and a DOMParser;
+// PDFs go through pdf.js. Spreadsheets and CSV files become pipe tables.
+// Images are the exception: they are only read as base64 and reach vision models as they are.
+
+// Vite bundles the worker with the app, so PDFs can be read offline.
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export interface ExtractedDocument {
+  text: string;
+  /** Known for PDFs, and for DOCX files whose metadata records it. */
+  pages?: number;
+  /** Worksheets in a spreadsheet; CSV counts as one. */
+  sheets?: number;
+}
+
+export type DocumentErrorReason = 'unsupported' | 'unreadable' | 'empty' | 'too_large';
+
+export class DocumentError extends Error {
+  reason: DocumentErrorReason;
+
+  constructor(message: string, reason: DocumentErrorReason) {
+    super(message);
+    this.name = 'DocumentError';
+    this.reason = reason;
+  }
+}
+
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif'];
+export const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.pdf', '.docx', '.csv', '.xlsx', ...IMAGE_EXTENSIONS];
+
+/** The smallest per-image limit among the providers (Anthropic's). */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.webp': 'image/webp', '.gif': 'image/gif' };
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const getExtension = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+const parseXml = (files: Unzipped, path: string): Document | null => {
+  const data = files[path];
+  return data ? new DOMParser().parseFromString(strFromU8(data), 'application/xml') : null;
+};
+
+const unzip = async (file: File): Promise<Unzipped> => {
+  try {
+    return unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (e) {
+    throw new DocumentError(`${file.name} is not a valid ${getExtension(file.name)} file: ${(e as Error).message}`, 'unreadable');
+  }
+};
+
+/** Renders rows as a pipe table, the first row being the header. */
+export const formatTable = (rows: string[][]): string => {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) return '';
+  const cell = (value = '') => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+  return [line(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(line)].join('\n');
+};
+
+const extractPdf = async (file: File): Promise<ExtractedDocument> => {
+  let pdf;
+  try {
+    pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  } catch (e) {
+    throw new DocumentError(`${file.name} could not be opened as a PDF: ${(e as Error).message}`, 'unreadable');
+  }
+  const pages: string[] = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const content = await (await pdf.getPage(n)).getTextContent();
+    pages.push(content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join(''));
+  }
+  await pdf.destroy();
+  return { text: pages.map((page, i) => `[Page ${i + 1}]\n${page.trim()}`).join('\n\n'), pages: pages.length };
+};
+
+const extractDocx = async (file: File): Promise<ExtractedDocument> => {
+  const files = await unzip(file);
+  const doc = parseXml(files, 'word/document.xml');
+  const body = doc?.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  if (!body) throw new DocumentError(`${file.name} has no word/document.xml body.`, 'unreadable');
+
+  const paragraphText = (p: Element): string => {
+    let text = '';
+    p.querySelectorAll('*').forEach(node => {
+      if (node.namespaceURI !== WORD_NS) return;
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab') text += '\t';
+      else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+    });
+    return text;
+  };
+  const blocks: string[] = [];
+  Array.from(body.children).forEach(child => {
+    if (child.localName === 'p') {
+      blocks.push(paragraphText(child));
+    } else if (child.localName === 'tbl') {
+      const rows = Array.from(child.getElementsByTagNameNS(WORD_NS, 'tr')).map(tr =>
+        Array.from(tr.getElementsByTagNameNS(WORD_NS, 'tc')).map(tc =>
+          Array.from(tc.getElementsByTagNameNS(WORD_NS, 'p')).map(paragraphText).join(' ')));
+      blocks.push(formatTable(rows));
+    }
+  });
+  // Word records the page count it last laid out; other editors may leave it out.
+  const pages = Number(parseXml(files, 'docProps/app.xml')?.getElementsByTagName('Pages')[0]?.textContent);
+  return { text: blocks.join('\n').replace(/\n{3,}/g, '\n\n').trim(), pages: pages > 0 ? pages : undefined };
+};
+
+/** Column index from a cell reference such as "AB12". */
+const columnIndex = (ref: string): number =>
+  (ref.match(/^[A-Z]+/)?.[0] || 'A').split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+const extractXlsx = async (file: File): Promise<ExtractedDocument> => {
+  const files = await unzip(file);
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  if (!workbook) throw new DocumentError(`${file.name} has no xl/workbook.xml.`, 'unreadable');
+  const targets = new Map<string, string>();
+  parseXml(files, 'xl/_rels/workbook.xml.rels')?.querySelectorAll('Relationship').forEach(rel => {
+    const target = rel.getAttribute('Target') || '';
+    targets.set(rel.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  });
+  const sharedStrings = Array.from(parseXml(files, 'xl/sharedStrings.xml')?.getElementsByTagNameNS(SHEET_NS, 'si') || [])
+    .map(si => Array.from(si.getElementsByTagNameNS(SHEET_NS, 't')).map(t => t.textContent || '').join(''));
+
+  const sheets = Array.from(workbook.getElementsByTagNameNS(SHEET_NS, 'sheet'));
+  const tables = sheets.map(sheet => {
+    const xml = parseXml(files, targets.get(sheet.getAttributeNS(REL_NS, 'id') || '') || '');
+    const rows = Array.from(xml?.getElementsByTagNameNS(SHEET_NS, 'row') || []).map(row => {
+      const values: string[] = [];
+      Array.from(row.getElementsByTagNameNS(SHEET_NS, 'c')).forEach((c, i) => {
+        const ref = c.getAttribute('r');
+        const raw = c.getElementsByTagNameNS(SHEET_NS, 'v')[0]?.textContent || '';
+        const type = c.getAttribute('t');
+        // Dates stay as serial numbers; telling them apart needs the style sheet.
+        values[ref ? columnIndex(ref) : i] = type === 's' ? sharedStrings[Number(raw)] || ''
+          : type === 'inlineStr' ? Array.from(c.getElementsByTagNameNS(SHEET_NS, 't')).map(t => t.textContent || '').join('')
+          : type === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE')
+          : raw;
+      });
+      return Array.from(values, value => value || '');
+    }).filter(row => row.some(Boolean));
+    return rows.length > 0 ? `Sheet: ${sheet.getAttribute('name')}\n${formatTable(rows)}` : '';
+  });
+  return { text: tables.filter(Boolean).join('\n\n'), sheets: sheets.length };
+};
+
+/** Splits CSV text into rows, honouring quoted fields. The delimiter is guessed from the first line. */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(Boolean));
+};
+
+/** Pulls the text out of an uploaded file. Throws DocumentError when the file can't be used. */
+export const extractDocument = async (file: File): Promise<ExtractedDocument> => {
+  const extension = getExtension(file.name);
+  let extracted: ExtractedDocument;
+  if (extension === '.pdf') extracted = await extractPdf(file);
+  else if (extension === '.docx') extracted = await extractDocx(file);
+  else if (extension === '.xlsx') extracted = await extractXlsx(file);
+  else if (extension === '.csv') extracted = { text: formatTable(parseCsv(await file.text())), sheets: 1 };
+  else if (extension === '.txt' || extension === '.md' || file.type.startsWith('text/')) extracted = { text: await file.text() };
+  else throw new DocumentError(`${file.name}: ${extension} files are not supported.`, 'unsupported');
+
+  if (!extracted.text.trim()) {
+    // Usually a scanned PDF: the pages are images with no text layer.
+    throw new DocumentError(`No text could be extracted from ${file.name}.`, 'empty');
+  }
+  return extracted;
+};
+
+export const isImageFile = (file: File): boolean => IMAGE_EXTENSIONS.includes(getExtension(file.name)) || Object.values(IMAGE_TYPES).includes(file.type);
+
+/** Reads an image upload or pasted screenshot for sending to vision models. Throws DocumentError when it can't be sent. */
+export const readImage = async (file: File): Promise<ImageInput> => {
+  const mimeType = IMAGE_TYPES[getExtension(file.name)] || file.type;
+  if (!Object.values(IMAGE_TYPES).includes(mimeType)) {
+    throw new DocumentError(`${file.name}: only PNG, JPEG, WebP and GIF images can be sent to models.`, 'unsupported');
+  }
+  if (file.size > MAX_IMAGE_BYTES) throw new DocumentError(`${file.name} is larger than 5 MB.`, 'too_large');
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new DocumentError(`${file.name} could not be read: ${reader.error?.message}`, 'unreadable'));
+    reader.readAsDataURL(file);
+  });
+  return { mimeType, data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
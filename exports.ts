@@ -0,0 +1,273 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { strToU8, zipSync } from "fflate";
+import { Token, Tokens } from "marked";
+import { markdownToHtml, parseMarkdown, safeHref } from "./markdown";
+
+// --- DOCUMENT EXPORT ---
+// Exports start from the Markdown the app builds for a discussion. DOCX is written as OOXML
+// straight from the Markdown tokens and zipped with fflate; PDF goes through the browser's own
+// print dialog, which also takes care of fonts for Chinese text. Nothing leaves the browser.
+
+export type ExportFormat = 'docx' | 'pdf' | 'markdown';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Characters XML 1.0 doesn't allow, which models occasionally emit.
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F￾￿]/g;
+
+const escapeXml = (text: string) =>
+  text.replace(INVALID_XML_CHARS, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const WORD_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/** Indentation of one list level, in twentieths of a point. */
+const LIST_INDENT = 720;
+const BULLETS = ['•', '◦', '▪'];
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+interface ListPosition {
+  numId: number;
+  level: number;
+  /** A checkbox for task list items. */
+  marker?: string;
+}
+
+interface BlockContext {
+  style?: string;
+  item?: ListPosition;
+  indent?: number;
+  listLevel?: number;
+}
+
+/** One list in the document. Word continues numbering across lists unless each gets its own instance. */
+interface ListInstance {
+  ordered: boolean;
+  start: number;
+  level: number;
+}
+
+const STYLES_XML = `${XML_HEADER}<w:styles ${WORD_NS}>
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:eastAsia="Microsoft JhengHei" w:cs="Arial"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${[36, 30, 26, 24, 22, 22].map((size, i) => `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${i < 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr><w:rPr><w:b/><w:color w:val="1F3A2C"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`).join('\n')}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="${LIST_INDENT}"/></w:pPr><w:rPr><w:i/><w:color w:val="595959"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="A6A6A6"/>`).join('')}</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+const buildNumbering = (lists: ListInstance[]): string => {
+  const levels = (ordered: boolean) => Array.from({ length: 9 }, (_, level) => `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>`
+    + (ordered ? `<w:numFmt w:val="decimal"/><w:lvlText w:val="%${level + 1}."/>` : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${BULLETS[level % BULLETS.length]}"/>`)
+    + `<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${LIST_INDENT * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`).join('');
+  return `${XML_HEADER}<w:numbering ${WORD_NS}>`
+    + `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>`
+    + lists.map(({ ordered, start, level }, i) => `<w:num w:numId="${i + 1}"><w:abstractNumId w:val="${ordered ? 1 : 0}"/>`
+      + `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`).join('')
+    + `</w:numbering>`;
+};
+
+/** Turns Markdown tokens into WordprocessingML body content, collecting the links and lists it needs declared. */
+const createBodyWriter = () => {
+  const links: string[] = [];
+  const lists: ListInstance[] = [];
+
+  const run = (text: string, style: RunStyle = {}): string => {
+    const rStyle = style.code ? 'CodeChar' : style.link ? 'Hyperlink' : '';
+    const props = `${rStyle ? `<w:rStyle w:val="${rStyle}"/>` : ''}${style.bold ? '<w:b/>' : ''}${style.italic ? '<w:i/>' : ''}${style.strike ? '<w:strike/>' : ''}`;
+    return text.split('\n').map((line, i) =>
+      `${i > 0 ? '<w:r><w:br/></w:r>' : ''}<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`).join('');
+  };
+
+  const inline = (tokens: Token[] = [], style: RunStyle = {}): string => tokens.map(token => {
+    switch (token.type) {
+      case 'strong': return inline((token as Tokens.Strong).tokens, { ...style, bold: true });
+      case 'em': return inline((token as Tokens.Em).tokens, { ...style, italic: true });
+      case 'del': return inline((token as Tokens.Del).tokens, { ...style, strike: true });
+      case 'codespan': return run((token as Tokens.Codespan).text, { ...style, code: true });
+      case 'br': return '<w:r><w:br/></w:r>';
+      case 'link': {
+        const { href, tokens: children } = token as Tokens.Link;
+        const url = safeHref(href);
+        if (!url) return inline(children, style);
+        links.push(url);
+        // rId1 and rId2 are the styles and numbering parts.
+        return `<w:hyperlink r:id="rId${links.length + 2}">${inline(children, { ...style, link: true })}</w:hyperlink>`;
+      }
+      case 'image': return run(`[${(token as Tokens.Image).text || (token as Tokens.Image).href}]`, style);
+      case 'text': {
+        const { text, tokens: children } = token as Tokens.Text;
+        return children ? inline(children, style) : run(text, style);
+      }
+      default: return run('text' in token ? token.text : token.raw, style);
+    }
+  }).join('');
+
+  const paragraph = (content: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+  const table = ({ header, rows }: Tokens.Table): string => {
+    const cell = (content: string) => `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(content, '<w:spacing w:after="0"/>')}</w:tc>`;
+    return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>`
+      + `<w:tr><w:trPr><w:tblHeader/></w:trPr>${header.map(c => cell(inline(c.tokens, { bold: true }))).join('')}</w:tr>`
+      + rows.map(row => `<w:tr>${row.map(c => cell(inline(c.tokens))).join('')}</w:tr>`).join('')
+      // Word wants a paragraph between a table and whatever follows it.
+      + `</w:tbl>${paragraph('')}`;
+  };
+
+  const numberingProps = ({ numId, level }: ListPosition) => `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`;
+
+  /**
+   * `item` numbers the paragraph that opens a list item; `indent` lines up the item's later
+   * paragraphs and code with its text. `listLevel` is how deeply the current list is nested.
+   */
+  const blocks = (tokens: Token[], context: BlockContext = {}): string => {
+    const props = () => `${context.style ? `<w:pStyle w:val="${context.style}"/>` : ''}`
+      + (context.item ? numberingProps(context.item) : context.indent ? `<w:ind w:left="${context.indent}"/>` : '');
+    const text = (content: string) => paragraph(`${context.item?.marker ? run(context.item.marker) : ''}${content}`, props());
+    return tokens.map(token => {
+      switch (token.type) {
+        case 'space':
+        case 'def':
+          return '';
+        case 'heading': {
+          const { depth, tokens: children } = token as Tokens.Heading;
+          return paragraph(inline(children), `<w:pStyle w:val="Heading${depth}"/>`);
+        }
+        case 'paragraph': return text(inline((token as Tokens.Paragraph).tokens));
+        case 'text': {
+          // Items of a tight list hold bare text blocks rather than paragraphs.
+          const { text: raw, tokens: children } = token as Tokens.Text;
+          return text(children ? inline(children) : run(raw));
+        }
+        case 'blockquote':
+          return blocks((token as Tokens.Blockquote).tokens, { ...context, style: 'Quote', item: undefined });
+        case 'hr':
+          return paragraph('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="A6A6A6"/></w:pBdr>');
+        case 'code':
+          return (token as Tokens.Code).text.split('\n')
+            .map(line => paragraph(run(line), `<w:pStyle w:val="Code"/>${context.indent ? `<w:ind w:left="${context.indent}"/>` : ''}`)).join('');
+        case 'list': {
+          const { ordered, start, items } = token as Tokens.List;
+          const level = Math.min((context.listLevel ?? -1) + 1, 8);
+          const numId = lists.push({ ordered, start: typeof start === 'number' ? start : 1, level });
+          const itemContext = { listLevel: level, indent: LIST_INDENT * (level + 1) };
+          return items.map(item => {
+            const [first, ...rest] = item.tokens;
+            const position = { numId, level, marker: item.task ? (item.checked ? '☑ ' : '☐ ') : '' };
+            // An item can open with something that isn't text, such as a code block; it still needs its number.
+            return first && (first.type === 'paragraph' || first.type === 'text')
+              ? blocks([first], { ...itemContext, item: position }) + blocks(rest, itemContext)
+              : paragraph(run(position.marker), numberingProps(position)) + blocks(item.tokens, itemContext);
+          }).join('');
+        }
+        case 'table': return table(token as Tokens.Table);
+        default: return text(run(token.raw));
+      }
+    }).join('');
+  };
+
+  return { blocks, links, lists };
+};
+
+/** Builds a .docx file from Markdown: headings, lists, tables, quotes, code blocks and links keep their structure. */
+export const markdownToDocx = (markdown: string, title: string): Uint8Array => {
+  const writer = createBodyWriter();
+  const body = writer.blocks(parseMarkdown(markdown));
+  const document = `${XML_HEADER}<w:document ${WORD_NS}><w:body>${body}`
+    + `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>`
+    + `</w:body></w:document>`;
+  const documentRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + `<Relationship Id="rId1" Type="${REL_TYPE}/styles" Target="styles.xml"/>`
+    + `<Relationship Id="rId2" Type="${REL_TYPE}/numbering" Target="numbering.xml"/>`
+    + writer.links.map((url, i) => `<Relationship Id="rId${i + 3}" Type="${REL_TYPE}/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`).join('')
+    + `</Relationships>`;
+  const created = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(`${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>`
+      + `<Default Extension="xml" ContentType="application/xml"/>`
+      + `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>`
+      + `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>`
+      + `<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>`
+      + `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>`
+      + `</Types>`),
+    '_rels/.rels': strToU8(`${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>`
+      + `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>`
+      + `</Relationships>`),
+    'docProps/core.xml': strToU8(`${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+      + `<dc:title>${escapeXml(title)}</dc:title><dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created></cp:coreProperties>`),
+    'word/document.xml': strToU8(document),
+    'word/_rels/document.xml.rels': strToU8(documentRels),
+    'word/styles.xml': strToU8(STYLES_XML),
+    'word/numbering.xml': strToU8(buildNumbering(writer.lists)),
+  });
+};
+
+const PRINT_STYLES = `
+  body { font-family: 'Arial', 'Noto Sans TC', 'Noto Sans SC', sans-serif; font-size: 11pt; line-height: 1.5; color: #111; margin: 0; }
+  h1 { font-size: 20pt; } h2 { font-size: 16pt; margin-top: 1.5em; } h3 { font-size: 13pt; } h4, h5, h6 { font-size: 11pt; }
+  h1, h2, h3, h4, h5, h6 { page-break-after: avoid; }
+  pre { background: #f2f2f2; padding: 8px; white-space: pre-wrap; font-size: 9.5pt; page-break-inside: avoid; }
+  code { font-family: 'Consolas', 'Menlo', monospace; }
+  table { border-collapse: collapse; margin: 0.5em 0; page-break-inside: avoid; }
+  th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; vertical-align: top; }
+  blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 1em; color: #555; }
+  a { color: #0563c1; }
+  @page { margin: 2cm; }
+`;
+
+/** A standalone HTML page for the Markdown, styled for paper. */
+export const markdownToHtmlDocument = (markdown: string, title: string): string =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeXml(title)}</title><style>${PRINT_STYLES}</style></head><body>${markdownToHtml(markdown)}</body></html>`;
+
+/**
+ * Opens the browser's print dialog for `html` from a hidden frame, where "Save as PDF" produces
+ * the file. The frame goes away once printing is done or cancelled.
+ */
+export const printDocument = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -3,9 +3,20 @@
  * Licensed under the MIT License. See the LICENSE file in the project root.
  */
 
-import { GoogleGenAI, Type } from "@google/genai";
 import React, { useState, useEffect, useRef } from "react";
 import { createRoot } from "react-dom/client";
+import { ChatMessage, createReplaySession, CustomProviderConfig, FixtureEntry, FixtureFile, getProvider, HUMAN_PROVIDER, ImageInput, isBuiltInProvider, listProviders, parseFixtureFile, ProviderAdapter, ReplaySession, setCustomProviders, setHumanParticipants, StructuredOutput, supportsVision, withRecording, withRetry } from "./providers";
+import { fitThread, getContextWindow } from "./memory";
+import { buildContext, ContextReport, isTrimmed, RoundText, SourceDocument } from "./context";
+import { DISCUSSION_PROTOCOLS, getProtocol, ProtocolId } from "./protocols";
+import { ConsensusScore, describeConsensus, formatAgreement, getDisputedPoints, KeyQuestion, scoreConsensus } from "./consensus";
+import { getAnswerStats, highlightDistinct } from "./compare";
+import { InlineMarkdown, MarkdownView, nestMarkdown } from "./markdown";
+import { downloadFile, DOCX_MIME_TYPE, ExportFormat, markdownToDocx, markdownToHtmlDocument, printDocument } from "./exports";
+import { Citation, CITATION_SCHEMA, createFootnotes, Footnotes, formatFootnoteMarks, isSameSource, validateCitations } from "./citations";
+import { createProxyFetcher, createStandInFetcher, ExtractedPage, FetchError, isFresh, loadPage, pageCacheSize, prunePageCache } from "./web";
+import { DocumentError, DocumentErrorReason, ExtractedDocument, extractDocument, isImageFile, readImage, SUPPORTED_EXTENSIONS } from "./documents";
+import { buildPriceTable, CallMetrics, estimateCost, formatCost, formatLatency, groupMetricsByModel, PriceTable, sumMetrics } from "./usage";
 
 // --- TYPES AND INTERFACES ---
 interface Call {
@@ -16,20 +27,64 @@ interface RoundPlan {
   stop_condition: "continue" | "consensus_formed" | "round_limit_reached" | "insufficient_information";
 }
 interface FinalReportData {
-  consensus: string; bullet_summary: string[]; doc_outline: string[]; doc_body_blocks: { heading: string; content: string }[];
+  consensus: string; bullet_summary: string[]; doc_outline: string[]; doc_body_blocks: { heading: string; content: string; sources?: Citation[] }[];
+  /** Sources of each key point, lined up with `bullet_summary`. Absent in reports written before citations. */
+  bullet_sources?: Citation[][];
+}
+/** The final report as the coordinator writes it: key points carry their sources with them. */
+interface CoordinatorFinalReport extends Omit<FinalReportData, 'bullet_summary' | 'bullet_sources'> {
+  /** Plain strings in fixtures recorded before citations. */
+  bullet_summary: ({ point: string; sources?: Citation[] } | string)[];
 }
 interface CoordinatorResponse {
-  round_plan: RoundPlan; debate_summary: string; final_if_stopped?: FinalReportData;
+  round_plan: RoundPlan; debate_summary: string; final_if_stopped?: CoordinatorFinalReport;
+}
+type ExecutionStatus = 'queued' | 'awaiting_input' | 'streaming' | 'done' | 'failed' | 'cancelled' | 'timed_out';
+type ExecutionMode = 'parallel' | 'sequential';
+interface Claim {
+  statement: string; evidence: string[];
+  /** 0 to 1, as stated by the participant. */
+  confidence: number;
+}
+interface StructuredResponse {
+  claims: Claim[]; assumptions: string[]; open_questions: string[];
 }
-interface ExecutionResult {
-  provider: string;
-  model: string;
+interface ExecutionResult extends CallMetrics {
   response: string;
+  status?: ExecutionStatus;
+  /** How much of the participant's own earlier conversation went along with the prompt. */
+  memory?: { turns: number; dropped: number };
+  /** In sequential rounds, the indices of the earlier results this participant was shown. */
+  replying_to?: number[];
+  /** Set when the participant answered in structured mode; `response` then holds a plain-text rendering of it. */
+  structured?: StructuredResponse;
+  /** Earlier attempts at this call (regenerated or reassigned); the result itself is the one the coordinator sees. */
+  alternates?: ExecutionResult[];
+  /** The uploaded images that went with the prompt; `described` when the model has no vision and got text descriptions instead. */
+  images?: { count: number; described: boolean };
+  /**
+   * The prompt as sent, when it was more than the planned one: earlier responses of a sequential round,
+   * attached documents or image descriptions. The participant's memory replays this in later rounds.
+   */
+  sent_prompt?: string;
 }
 interface RoundHistory {
   round: number; summary: string; plan: RoundPlan;
+  /** The coordinator's plan as generated, kept once the user edits `plan` by hand. */
+  original_plan?: RoundPlan;
   execution_results?: ExecutionResult[];
+  execution_mode?: ExecutionMode;
   final_report?: FinalReportData;
+  /** The coordinator calls that planned (and possibly closed) this round. */
+  coordinator_calls?: CallMetrics[];
+  /** What the planning prompt had to trim to fit the coordinator's context window. */
+  context_report?: ContextReport;
+  /** The same for the prompt that wrote `final_report`. */
+  final_context_report?: ContextReport;
+  /** Agreement computed from the participants' extracted positions after execution. */
+  consensus?: ConsensusScore;
+  /** Set when `consensus` met the user's threshold and stopped the discussion automatically. */
+  auto_stop_threshold?: number;
 }
 interface Clarification {
   provider: string; model: string; original_role: string; clarified_tasks: string; thinking_style: string;
@@ -38,45 +93,89 @@ interface ClarificationResponse {
   clarifications: Clarification[];
 }
 
+/** One line of a branching discussion. The active branch's rounds are the live `history`. */
+interface DiscussionBranch {
+  id: string;
+  name: string;
+  /** The branch this one was forked from and the last round it shares with it; unset on the main branch. */
+  parentId?: string;
+  forkedAtRound?: number;
+  history: RoundHistory[];
+  isFinished: boolean;
+  selectedModels: SelectedModels;
+  modelRoles: ModelRoles;
+}
+type BranchMode = 'replan' | 'followup' | 'participants';
+/** One prompt answered by every selected model, before any discussion; `results` line up with `calls`. */
+interface Comparison {
+  calls: Call[];
+  results: ExecutionResult[];
+}
+interface BranchDraft {
+  round: number; mode: BranchMode; question: string;
+  selectedModels: SelectedModels; modelRoles: ModelRoles;
+}
+
+type ExtractionStatus = 'extracting' | 'done' | 'failed';
+/** An uploaded file and the text pulled out of it; only `document` and `image` ever reach a prompt. */
+interface UploadedFile {
+  /** Unique per upload, so a slow extraction lands on the right entry after removals. */
+  id: string;
+  name: string;
+  status: ExtractionStatus;
+  document?: ExtractedDocument;
+  /** Set for images and screenshots, which go to vision models as they are. */
+  image?: ImageInput;
+  /** What models without vision get in place of `image`; generated the first time one of them needs it. */
+  description?: { text: string; metrics: CallMetrics };
+  error?: DocumentErrorReason;
+}
+type ImageUpload = UploadedFile & { image: ImageInput };
+
+type FetchStatus = 'fetching' | 'done' | 'failed';
+/** A URL the user added; its fetched text goes into prompts, a failed one is only listed as unavailable. */
+interface AttachedUrl {
+  url: string;
+  status: FetchStatus;
+  page?: ExtractedPage;
+  /** Set when `page` came from the local cache rather than a fresh fetch. */
+  cached?: boolean;
+  error?: string;
+}
+/** Where URL contents come from: the fetch proxy in main.py, or canned pages that need no network. */
+type PageSource = 'proxy' | 'stand_in';
+
 type AppStep = 'CONFIG' | 'SCOPING' | 'CLARIFICATION' | 'DISCUSSION';
-type LoadingAction = 'clarify' | 'process' | 'execute' | 'stop' | 'continue' | null;
+type LoadingAction = 'clarify' | 'compare' | 'process' | 'execute' | 'consensus' | 'stop' | 'continue' | null;
 type SelectedModels = Record<string, string[]>;
 type ModelRoles = Record<string, Record<string, string>>;
 type ClarifiedRoles = Record<string, { clarified_tasks: string; thinking_style: string }>;
 type Language = 'en' | 'zh';
+type TestMode = 'off' | 'record' | 'replay';
+/** How much of a discussion an export covers. The executive summary is the consensus and key points. */
+type ExportScope = 'transcript' | 'report' | 'summary';
+interface ModelRef {
+  provider: string; model: string;
+}
+interface ExecutionSettings {
+  maxRetries: number; baseDelaySec: number;
+  /** Per-discussion spending limit in USD; 0 means no cap. */
+  budgetCapUsd: number;
+  /** Ask participants for claims/evidence/confidence JSON instead of prose. */
+  structuredOutput: boolean;
+  /** Agreement percentage at which the discussion stops by itself; 0 turns auto-stop off. */
+  consensusThreshold: number;
+}
+interface AutopilotSettings {
+  /** Total executed rounds after which autopilot writes the final report. */
+  maxRounds: number;
+  /** Spend in USD at which autopilot wraps up; 0 means no limit. */
+  budgetUsd: number;
+  /** Agreement percentage that ends the run; 0 falls back to the execution setting. */
+  consensusThreshold: number;
+}
 
 // --- CONSTANTS ---
-const AVAILABLE_MODELS = {
-    "Google": ["gemini-2.5-pro", "gemini-2.5-flash"],
-    "OpenAI": ["gpt-5", "gpt-5-mini", "gpt-5-nano", "gpt-4o", "gpt-4o-mini", "gpt-4-turbo", "gpt-4", "gpt-3.5-turbo"],
-    "Anthropic": ["claude-3-5-sonnet", "claude-3-opus", "claude-3-haiku"],
-    "Groq": ["llama3-70b-8192", "llama3-8b-8192", "mixtral-8x7b-32768", "gemma-7b-it", "gemma2-9b-it"],
-    "Mistral": ["mistral-large-latest", "mistral-small-latest", "open-mixtral-8x7b", "open-mistral-7b", "codestral-latest"],
-    "DeepSeek": ["deepseek-chat", "deepseek-coder"],
-    "OpenEvidence": ["open-evidence-v1"],
-};
-
-const MODEL_CAPABILITIES = {
-  en: {
-    "Google": "Advanced reasoning, multimodal analysis, code generation",
-    "OpenAI": "General intelligence, creative writing, complex problem solving",
-    "Anthropic": "Safety-focused, analytical thinking, ethical reasoning",
-    "Groq": "Fast inference, efficient processing, lightweight tasks",
-    "Mistral": "Multilingual, code-focused, European AI perspective",
-    "DeepSeek": "Mathematical reasoning, coding expertise, research-oriented",
-    "OpenEvidence": "Evidence-based analysis, scientific reasoning"
-  },
-  zh: {
-    "Google": "進階推理、多模態分析、程式碼生成",
-    "OpenAI": "通用智能、創意寫作、複雜問題解決",
-    "Anthropic": "安全導向、分析思維、倫理推理",
-    "Groq": "快速推理、高效處理、輕量任務",
-    "Mistral": "多語言、程式導向、歐洲AI視角",
-    "DeepSeek": "數學推理、編程專長、研究導向",
-    "OpenEvidence": "證據分析、科學推理"
-  }
-};
-
 const COLLABORATION_TEMPLATES = {
   en: {
     "Business Strategy": {
@@ -165,6 +264,12 @@ const DISCUSSION_STYLES = {
   }
 };
 
+/** English tone for a style picked in either language; both lists are in the same order. */
+const getStyleTone = (style: string): string => {
+  const index = [DISCUSSION_STYLES.en, DISCUSSION_STYLES.zh].map(styles => Object.keys(styles).indexOf(style)).find(i => i >= 0) ?? 0;
+  return Object.values(DISCUSSION_STYLES.en)[index];
+};
+
 const UI_TEXT = {
   en: {
     title: "Multi-LLM Collaboration",
@@ -179,12 +284,42 @@ const UI_TEXT = {
     useTemplate: "Use Template",
     discussionTemplates: "Collaboration Templates",
     discussionStyle: "Discussion Style",
+    discussionProtocol: "Discussion Format",
     customTopic: "Custom Topic",
     uploadFiles: "Upload Files",
     addUrls: "Add URLs",
     urlPlaceholder: "Enter URL to analyze...",
     addUrl: "Add URL",
     removeFile: "Remove",
+    extractionStatus: { extracting: "Extracting...", done: "Ready", failed: "Failed" },
+    extractionStats: (characters: number, pages?: number, sheets?: number) =>
+      [pages && `${pages} ${pages === 1 ? 'page' : 'pages'}`, sheets && `${sheets} ${sheets === 1 ? 'sheet' : 'sheets'}`, `${characters.toLocaleString()} characters`].filter(Boolean).join(' • '),
+    extractionErrors: {
+      unsupported: "This file type can't be read. Save Word documents as .docx and spreadsheets as .xlsx or .csv.",
+      unreadable: "The file looks damaged or isn't what its extension says. It won't be sent to the models.",
+      empty: "No text found. Scanned PDFs need OCR first. The file won't be sent to the models.",
+      too_large: "Images can be at most 5 MB. Resize or crop it and upload it again.",
+    },
+    previewExtractedText: "Preview extracted text",
+    imageUploadHint: "Images and screenshots (PNG, JPEG, WebP, GIF) go to models that can see them. You can also paste screenshots into the text fields above. Models without vision get a text description instead.",
+    imageStats: (kilobytes: number) => `Image • ${kilobytes.toLocaleString()} KB`,
+    previewImageDescription: (describer: string) => `Text description for models without vision (by ${describer})`,
+    imagesInline: (n: number) => `Saw ${n} ${n === 1 ? 'image' : 'images'}`,
+    imagesDescribed: (n: number) => `⚠ No vision: saw text descriptions of ${n} ${n === 1 ? 'image' : 'images'}, not the ${n === 1 ? 'image' : 'images'}`,
+    imagesDescribedHelp: "This model can't read images, so it was given descriptions written by a vision-capable model. Details the descriptions missed are invisible to it.",
+    contextTrimmed: (used: number, budget: number) => `Trimmed to fit the coordinator's context window (~${used.toLocaleString()} of ${budget.toLocaleString()} tokens)`,
+    summarizedRounds: (rounds: string) => `Round ${rounds}: sent as summaries only`,
+    shortenedResponses: (n: number) => `${n} ${n === 1 ? 'response' : 'responses'} of the latest round shortened`,
+    trimmedDocument: (name: string, kept: number, total: number) => `${name}: ${kept} of ${total} excerpts, chosen for relevance`,
+    filesExtracting: "Wait until all uploaded files and URLs are ready.",
+    fetchStatus: { fetching: "Fetching...", done: "Fetched", failed: "Failed" },
+    fetchedPageStats: (characters: number, cachedAt: string | null) => `${characters.toLocaleString()} characters${cachedAt ? ` • cached ${cachedAt}` : ''}`,
+    fetchFailed: (reason: string) => `${reason} Only the link will be listed, marked as unread.`,
+    refetchUrl: "Fetch again",
+    previewPage: (title: string) => `Preview: ${title}`,
+    pageSourceTitle: "URL Contents",
+    pageSources: { proxy: "Fetch through the proxy", stand_in: "Local stand-in pages (no network)" },
+    pageSourceHelper: "URLs are fetched by the proxy in main.py. Stand-in pages let you test the flow offline; they are never cached.",
     removeUrl: "Remove",
     assignCompanyRole: "Assign Company Roles",
     assignRolePlaceholder: "e.g., CEO, Lead Engineer, Marketing...",
@@ -197,21 +332,133 @@ const UI_TEXT = {
     apiKeysTitle: "API Keys",
     apiKeysHelper: "Your keys are saved securely in your browser's local storage.",
     apiKeyPlaceholder: (provider: string) => `${provider} API Key`,
+    optionalApiKeyPlaceholder: (provider: string) => `${provider} API Key (optional)`,
+    customProvidersTitle: "Custom Providers",
+    customProvidersHelper: "Register any OpenAI-compatible server, such as Ollama, vLLM or LM Studio.",
+    customProviderName: "Provider name, e.g. Ollama",
+    customProviderBaseUrl: "Base URL, e.g. http://localhost:11434/v1",
+    customProviderModels: "Model names, comma-separated",
+    customProviderCapabilities: "Capabilities (optional)",
+    customProviderNameTaken: "A provider with this name already exists, or the name contains '/'.",
+    addCustomProvider: "Add Provider",
+    removeCustomProvider: "Remove",
+    humanParticipantsTitle: "Human Participants",
+    humanParticipantsHelper: "Add yourself or a teammate as a participant. The coordinator can address prompts to people, and the round waits for their typed answers.",
+    humanNamePlaceholder: "Name, e.g. Alice",
+    humanNameTaken: "This name is already taken, or contains '/'.",
+    addHumanParticipant: "Add Person",
+    humanAnswerPlaceholder: "Type your answer...",
+    submitHumanAnswer: "Submit Answer",
     next: "Next",
     back: "Back",
     startDiscussion: "Start Discussion",
+    compareModels: "Compare Answers",
+    comparisonTitle: "Side-by-Side Comparison",
+    comparisonHelper: "Every selected model answered the same prompt on its own. Highlighted sentences are points no other model made.",
+    answerStats: (words: number, characters: number) => `${words} words • ${characters} characters`,
+    closeComparison: "Close",
+    promoteComparison: "Start Discussion from These Answers",
+    comparisonRoundSummary: "Side-by-side comparison: every participant answered the topic independently.",
     proceedToRound: (round: number) => `Proceed to Round ${round}`,
     startNewDiscussion: "Start New Discussion",
     errorOccurred: "An error occurred. Please check the console. Note: Direct browser API calls may be blocked by CORS.",
+    storageFull: "The browser's storage is full, so saved discussions could not be stored. Delete some and save again.",
     topicRequired: "Please enter a topic.",
     rolesRequired: "Please assign a role to each selected model.",
-    googleApiKeyRequired: "Google API Key is required.",
+    coordinatorApiKeyRequired: (provider: string) => `An API key for ${provider} is required to run the coordinator.`,
+    coordinatorModel: "Project Manager / Coordinator Model",
+    coordinatorHelper: "This model clarifies roles, plans each round and writes the final report.",
     round: "Round", discussionSummary: "Discussion Summary", roundPlan: "Round Plan",
     finalReport: "Final Report", consensus: "Consensus", keyPoints: "Key Points", documentOutline: "Document Outline", stopReason: "Reason for Stopping",
+    sources: "Sources",
+    showRawText: "Show raw text",
+    showFormatted: "Show formatted",
+    citationSource: (round: number, participant: string) => `Round ${round}, ${participant}`,
     executeTasks: "Execute Tasks for this Round",
     executionResults: "Execution Results",
-    downloadTranscript: "Download Transcript (.txt)",
-    downloadDoc: "Download Doc (.doc)",
+    resultStatus: { queued: "Queued", awaiting_input: "Waiting for answer", streaming: "Streaming", done: "Done", failed: "Failed", cancelled: "Cancelled", timed_out: "Timed out" },
+    cancelRound: "Cancel Round",
+    executionModes: { parallel: "All at once (parallel)", sequential: "In turn (rebuttal)" },
+    respondingTo: (names: string) => `Responding to: ${names}`,
+    moveUp: "Move earlier", moveDown: "Move later",
+    editPlan: "Edit Plan",
+    doneEditingPlan: "Done Editing",
+    removeCall: "Remove call",
+    callRolePlaceholder: "Role for this call",
+    callPromptPlaceholder: "Prompt for this participant...",
+    selectCallModel: "Add a call for...",
+    addCall: "Add Call",
+    planEditedByHand: "Edited by hand. Show the coordinator's original plan",
+    branchesTitle: "Branches",
+    mainBranch: "Main",
+    branchName: (n: number, round: number) => `Branch ${n} (from round ${round})`,
+    branchFromHere: "Branch from here",
+    branchModes: { replan: "Re-plan this round", followup: "Continue with a follow-up question", participants: "Continue with different participants" },
+    branchQuestionPlaceholder: "Follow-up question for this branch...",
+    createBranch: "Create Branch",
+    cancel: "Cancel",
+    compareWith: "Compare with...",
+    noFinalReport: "No final report yet.",
+    roundsCount: (n: number) => `${n} ${n === 1 ? 'round' : 'rounds'}`,
+    regenerate: "Regenerate",
+    reassignTo: "Re-run on...",
+    reassign: "Reassign",
+    alternatesCount: (n: number) => `${n} earlier ${n === 1 ? 'attempt' : 'attempts'}`,
+    useAlternate: "Use this one",
+    executionSettingsTitle: "Execution Settings",
+    maxRetries: "Retries on rate limit / server error",
+    baseDelaySec: "Initial backoff (seconds)",
+    budgetCapUsd: "Budget cap per discussion (USD, 0 = none)",
+    structuredOutput: "Structured participant output (claims, evidence, confidence)",
+    consensusThreshold: "Auto-stop at agreement (%, 0 = off)",
+    autopilotTitle: "Autopilot",
+    autopilotHelper: "Plans and executes rounds on its own until a limit is reached, then writes the final report. It pauses when a call fails, and you can interrupt it at any time.",
+    autopilotMaxRounds: "Max rounds",
+    autopilotBudget: "Budget (USD, 0 = none)",
+    autopilotThreshold: "Stop at agreement (%, 0 = execution setting)",
+    startAutopilot: "Start Autopilot",
+    interruptAutopilot: "Interrupt Autopilot",
+    autopilotStatus: {
+      interrupted: "Autopilot interrupted. You can continue manually or start it again.",
+      planningFailed: "Autopilot paused: planning the next round failed.",
+      executionFailed: "Autopilot paused: the round could not be executed.",
+      callFailed: "Autopilot paused: at least one participant call did not complete. Review the round, then continue manually or restart autopilot.",
+      roundLimit: (rounds: number) => `Autopilot reached its limit of ${rounds} rounds and is writing the final report.`,
+      budget: (cost: string) => `Another round would go past autopilot's ${cost} budget, so it is writing the final report.`,
+      budgetCap: (cost: string) => `Another round would go past the ${cost} spending cap, so autopilot is writing the final report.`,
+      consensus: (agreement: string) => `Autopilot stopped: measured agreement reached ${agreement}.`,
+      coordinatorStopped: "Autopilot stopped: the coordinator ended the discussion.",
+    },
+    agreement: "Measured agreement",
+    measuringAgreement: "Measuring agreement again...",
+    disputedPoints: "Points in dispute",
+    autoStopped: (agreement: string, threshold: number) => `Stopped automatically: measured agreement ${agreement} reached the ${threshold}% threshold.`,
+    claimsTable: { claim: "Claim", evidence: "Evidence", confidence: "Confidence" },
+    assumptions: "Assumptions",
+    openQuestions: "Open questions",
+    testModeTitle: "Record & Replay",
+    testModeHelper: "Record real calls to a fixture file, or replay one to run a discussion offline. The Mock provider needs neither.",
+    testModes: { off: "Off (live calls)", record: "Record live calls", replay: "Replay from fixture" },
+    recordedCalls: (n: number) => `${n} call(s) recorded`,
+    downloadFixture: "Download Fixture (.json)",
+    loadFixture: "Load Fixture",
+    noFixture: "No fixture loaded",
+    fixtureLoaded: (name: string, n: number) => `${name}: ${n} recorded call(s)`,
+    fixtureInvalid: "That file is not a valid recorded fixture.",
+    budgetExceeded: "Budget cap reached: the next round would go over it. Stop & Summarize to finish, or raise the cap in Setup.",
+    usageTitle: "Usage & Cost",
+    usageModel: "Model", usageCalls: "Calls", usageInput: "Input tokens", usageOutput: "Output tokens", usageLatency: "Avg latency", usageCost: "Est. cost",
+    usageTotal: "Total",
+    usageBudget: (spent: string, cap: string) => `${spent} of ${cap} budget used`,
+    usageUnpriced: (n: number) => `${n} call(s) had no usage data or price and are not counted.`,
+    roundUsage: (input: number, output: number, cost: string) => `Tokens: ${input} in / ${output} out • Est. cost: ${cost}`,
+    editPrices: "Edit price table (USD per 1M tokens)",
+    priceInput: "Input", priceOutput: "Output",
+    tokens: "tokens",
+    memoryInfo: (turns: number, dropped: number) => `Memory: ${turns} earlier turn(s)${dropped > 0 ? `, ${dropped} oldest dropped to fit the context window` : ''}`,
+    exportScopes: { transcript: "Full transcript", report: "Final report only", summary: "Executive summary" },
+    exportFormats: { docx: "Download Word (.docx)", pdf: "Print / Save as PDF", markdown: "Download Markdown (.md)" },
+    executiveSummary: "Executive Summary",
     downloadCode: "Download Code (.js)",
     stopAndSummarize: "Stop & Summarize",
     askFollowUp: "Ask Follow-up Questions",
@@ -247,12 +494,42 @@ const UI_TEXT = {
     useTemplate: "使用模板",
     discussionTemplates: "協作模板",
     discussionStyle: "討論風格",
+    discussionProtocol: "討論形式",
     customTopic: "自訂主題",
     uploadFiles: "上傳檔案",
     addUrls: "新增網址",
     urlPlaceholder: "輸入要分析的網址...",
     addUrl: "新增網址",
     removeFile: "移除",
+    extractionStatus: { extracting: "擷取中...", done: "就緒", failed: "失敗" },
+    extractionStats: (characters: number, pages?: number, sheets?: number) =>
+      [pages && `${pages} 頁`, sheets && `${sheets} 個工作表`, `${characters.toLocaleString()} 字元`].filter(Boolean).join(' • '),
+    extractionErrors: {
+      unsupported: "無法讀取此檔案類型。請將 Word 文件另存為 .docx，試算表另存為 .xlsx 或 .csv。",
+      unreadable: "檔案似乎已損毀，或與副檔名不符。此檔案不會傳送給模型。",
+      empty: "找不到文字。掃描的 PDF 需要先進行 OCR。此檔案不會傳送給模型。",
+      too_large: "圖片最大為 5 MB。請縮小或裁切後重新上傳。",
+    },
+    previewExtractedText: "預覽擷取的文字",
+    imageUploadHint: "圖片與螢幕截圖（PNG、JPEG、WebP、GIF）會傳送給能讀取圖片的模型。您也可以將截圖直接貼到上方的文字欄位。不支援視覺的模型會改收到文字描述。",
+    imageStats: (kilobytes: number) => `圖片 • ${kilobytes.toLocaleString()} KB`,
+    previewImageDescription: (describer: string) => `給不支援視覺模型的文字描述（由 ${describer} 撰寫）`,
+    imagesInline: (n: number) => `已檢視 ${n} 張圖片`,
+    imagesDescribed: (n: number) => `⚠ 不支援視覺：只看到 ${n} 張圖片的文字描述，而非圖片本身`,
+    imagesDescribedHelp: "此模型無法讀取圖片，因此改提供由支援視覺的模型撰寫的描述。描述中遺漏的細節，此模型無從得知。",
+    contextTrimmed: (used: number, budget: number) => `已裁減內容以符合協調者的上下文視窗（約 ${used.toLocaleString()} / ${budget.toLocaleString()} 個 token）`,
+    summarizedRounds: (rounds: string) => `第 ${rounds} 回合：僅傳送摘要`,
+    shortenedResponses: (n: number) => `最新回合有 ${n} 則回應被縮短`,
+    trimmedDocument: (name: string, kept: number, total: number) => `${name}：依相關性選出 ${total} 段中的 ${kept} 段`,
+    filesExtracting: "請等待所有上傳檔案與網址準備完成。",
+    fetchStatus: { fetching: "擷取中...", done: "已擷取", failed: "失敗" },
+    fetchedPageStats: (characters: number, cachedAt: string | null) => `${characters.toLocaleString()} 字元${cachedAt ? ` • 快取於 ${cachedAt}` : ''}`,
+    fetchFailed: (reason: string) => `${reason} 提示中只會列出此連結，並標示為無法讀取。`,
+    refetchUrl: "重新擷取",
+    previewPage: (title: string) => `預覽：${title}`,
+    pageSourceTitle: "網址內容",
+    pageSources: { proxy: "透過代理伺服器擷取", stand_in: "本機替代頁面（不連網）" },
+    pageSourceHelper: "網址由 main.py 中的代理伺服器擷取。替代頁面可讓您離線測試流程，且不會被快取。",
     removeUrl: "移除",
     assignCompanyRole: "指派公司角色",
     assignRolePlaceholder: "例如：CEO、首席工程師、行銷總監...",
@@ -265,21 +542,133 @@ const UI_TEXT = {
     apiKeysTitle: "API 金鑰",
     apiKeysHelper: "您的金鑰會安全地儲存在瀏覽器的本機儲存空間中。",
     apiKeyPlaceholder: (provider: string) => `${provider} API 金鑰`,
+    optionalApiKeyPlaceholder: (provider: string) => `${provider} API 金鑰（可選）`,
+    customProvidersTitle: "自訂供應商",
+    customProvidersHelper: "註冊任何相容 OpenAI 的伺服器，例如 Ollama、vLLM 或 LM Studio。",
+    customProviderName: "供應商名稱，例如 Ollama",
+    customProviderBaseUrl: "基礎網址，例如 http://localhost:11434/v1",
+    customProviderModels: "模型名稱，以逗號分隔",
+    customProviderCapabilities: "能力說明（可選）",
+    customProviderNameTaken: "已有同名供應商，或名稱包含「/」。",
+    addCustomProvider: "新增供應商",
+    removeCustomProvider: "移除",
+    humanParticipantsTitle: "真人參與者",
+    humanParticipantsHelper: "將您自己或隊友加入為參與者。協調者可以向真人提問，回合會等待其輸入回答。",
+    humanNamePlaceholder: "名稱，例如 Alice",
+    humanNameTaken: "此名稱已被使用，或包含「/」。",
+    addHumanParticipant: "新增人員",
+    humanAnswerPlaceholder: "輸入您的回答...",
+    submitHumanAnswer: "提交回答",
     next: "下一步",
     back: "上一步",
     startDiscussion: "開始討論",
+    compareModels: "比較回答",
+    comparisonTitle: "並列比較",
+    comparisonHelper: "每個選定的模型各自回答了相同的提示。醒目標示的句子是其他模型都沒有提到的觀點。",
+    answerStats: (words: number, characters: number) => `${words} 詞 • ${characters} 字元`,
+    closeComparison: "關閉",
+    promoteComparison: "以這些回答開始討論",
+    comparisonRoundSummary: "並列比較：每位參與者各自獨立回答了主題。",
     proceedToRound: (round: number) => `進入第 ${round} 回合`,
     startNewDiscussion: "開始新的討論",
     errorOccurred: "發生錯誤，請查看主控台。注意：從瀏覽器直接呼叫 API 可能會被 CORS 安全策略阻擋。",
+    storageFull: "瀏覽器儲存空間已滿，無法保存已儲存的討論。請刪除部分討論後再儲存。",
     topicRequired: "請輸入一個主題。",
     rolesRequired: "請為每個選擇的模型指派一個角色。",
-    googleApiKeyRequired: "必須提供 Google API 金鑰。",
+    coordinatorApiKeyRequired: (provider: string) => `必須提供 ${provider} API 金鑰才能執行協調者。`,
+    coordinatorModel: "專案經理／協調者模型",
+    coordinatorHelper: "此模型負責釐清角色、規劃每一回合並撰寫最終報告。",
     round: "回合", discussionSummary: "討論摘要", roundPlan: "回合計畫",
     finalReport: "最終報告", consensus: "共識結論", keyPoints: "重點摘要", documentOutline: "文件大綱", stopReason: "討論停止原因",
+    sources: "資料來源",
+    showRawText: "顯示原始文字",
+    showFormatted: "顯示格式化內容",
+    citationSource: (round: number, participant: string) => `第 ${round} 回合，${participant}`,
     executeTasks: "執行本回合任務",
     executionResults: "執行結果",
-    downloadTranscript: "下載完整對話紀錄 (.txt)",
-    downloadDoc: "下載文件 (.doc)",
+    resultStatus: { queued: "排隊中", awaiting_input: "等待作答", streaming: "串流中", done: "完成", failed: "失敗", cancelled: "已取消", timed_out: "已逾時" },
+    cancelRound: "取消本回合",
+    executionModes: { parallel: "同時執行（平行）", sequential: "依序發言（反駁）" },
+    respondingTo: (names: string) => `回應：${names}`,
+    moveUp: "往前移", moveDown: "往後移",
+    editPlan: "編輯計畫",
+    doneEditingPlan: "完成編輯",
+    removeCall: "移除此呼叫",
+    callRolePlaceholder: "此呼叫的角色",
+    callPromptPlaceholder: "給此參與者的提示...",
+    selectCallModel: "新增呼叫給...",
+    addCall: "新增呼叫",
+    planEditedByHand: "已手動編輯。顯示協調者的原始計畫",
+    branchesTitle: "分支",
+    mainBranch: "主線",
+    branchName: (n: number, round: number) => `分支 ${n}（自第 ${round} 回合）`,
+    branchFromHere: "從此處分支",
+    branchModes: { replan: "重新規劃本回合", followup: "以追問繼續", participants: "更換參與者後繼續" },
+    branchQuestionPlaceholder: "此分支的追問...",
+    createBranch: "建立分支",
+    cancel: "取消",
+    compareWith: "比較對象...",
+    noFinalReport: "尚無最終報告。",
+    roundsCount: (n: number) => `${n} 回合`,
+    regenerate: "重新產生",
+    reassignTo: "改由...重新執行",
+    reassign: "重新指派",
+    alternatesCount: (n: number) => `${n} 個先前的版本`,
+    useAlternate: "採用此版本",
+    executionSettingsTitle: "執行設定",
+    maxRetries: "速率限制／伺服器錯誤時重試次數",
+    baseDelaySec: "初始退避時間（秒）",
+    budgetCapUsd: "每次討論預算上限（美元，0 = 不限）",
+    structuredOutput: "結構化參與者輸出（主張、證據、信心）",
+    consensusThreshold: "共識達到此比例時自動停止（%，0 = 關閉）",
+    autopilotTitle: "自動駕駛",
+    autopilotHelper: "自動規劃並執行回合，直到達到上限後產生最終報告。呼叫失敗時會暫停，您也可以隨時中斷。",
+    autopilotMaxRounds: "最多回合數",
+    autopilotBudget: "預算（美元，0 = 不限）",
+    autopilotThreshold: "共識達到此比例時停止（%，0 = 使用執行設定）",
+    startAutopilot: "啟動自動駕駛",
+    interruptAutopilot: "中斷自動駕駛",
+    autopilotStatus: {
+      interrupted: "自動駕駛已中斷。您可以手動繼續或重新啟動。",
+      planningFailed: "自動駕駛已暫停：規劃下一回合失敗。",
+      executionFailed: "自動駕駛已暫停：無法執行本回合。",
+      callFailed: "自動駕駛已暫停：至少有一個參與者呼叫未完成。請檢查本回合後手動繼續或重新啟動。",
+      roundLimit: (rounds: number) => `自動駕駛已達 ${rounds} 回合上限，正在產生最終報告。`,
+      budget: (cost: string) => `再進行一回合將超過自動駕駛的 ${cost} 預算，正在產生最終報告。`,
+      budgetCap: (cost: string) => `再進行一回合將超過 ${cost} 的花費上限，自動駕駛正在產生最終報告。`,
+      consensus: (agreement: string) => `自動駕駛已停止：實測共識度達到 ${agreement}。`,
+      coordinatorStopped: "自動駕駛已停止：協調者結束了討論。",
+    },
+    agreement: "實測共識度",
+    measuringAgreement: "正在重新測量共識度…",
+    disputedPoints: "仍有爭議的論點",
+    autoStopped: (agreement: string, threshold: number) => `已自動停止：實測共識度 ${agreement} 達到 ${threshold}% 門檻。`,
+    claimsTable: { claim: "主張", evidence: "證據", confidence: "信心" },
+    assumptions: "假設",
+    openQuestions: "待解問題",
+    testModeTitle: "錄製與重播",
+    testModeHelper: "將真實呼叫錄製成測試檔，或重播測試檔以離線進行討論。Mock 供應商兩者皆不需要。",
+    testModes: { off: "關閉（即時呼叫）", record: "錄製即時呼叫", replay: "從測試檔重播" },
+    recordedCalls: (n: number) => `已錄製 ${n} 次呼叫`,
+    downloadFixture: "下載測試檔 (.json)",
+    loadFixture: "載入測試檔",
+    noFixture: "尚未載入測試檔",
+    fixtureLoaded: (name: string, n: number) => `${name}：${n} 次錄製呼叫`,
+    fixtureInvalid: "此檔案不是有效的錄製測試檔。",
+    budgetExceeded: "已達預算上限：下一回合將超出預算。請按「停止並總結」結束，或在設定中提高上限。",
+    usageTitle: "用量與費用",
+    usageModel: "模型", usageCalls: "呼叫次數", usageInput: "輸入 tokens", usageOutput: "輸出 tokens", usageLatency: "平均延遲", usageCost: "預估費用",
+    usageTotal: "總計",
+    usageBudget: (spent: string, cap: string) => `已使用 ${spent}／預算 ${cap}`,
+    usageUnpriced: (n: number) => `有 ${n} 次呼叫缺少用量資料或價格，未列入計算。`,
+    roundUsage: (input: number, output: number, cost: string) => `Tokens：輸入 ${input}／輸出 ${output} • 預估費用：${cost}`,
+    editPrices: "編輯價格表（每百萬 tokens 美元）",
+    priceInput: "輸入", priceOutput: "輸出",
+    tokens: "tokens",
+    memoryInfo: (turns: number, dropped: number) => `記憶：先前 ${turns} 輪對話${dropped > 0 ? `，為符合上下文長度已捨棄最早的 ${dropped} 輪` : ''}`,
+    exportScopes: { transcript: "完整對話紀錄", report: "僅最終報告", summary: "執行摘要" },
+    exportFormats: { docx: "下載 Word (.docx)", pdf: "列印／另存為 PDF", markdown: "下載 Markdown (.md)" },
+    executiveSummary: "執行摘要",
     downloadCode: "下載程式碼 (.js)",
     stopAndSummarize: "停止並總結",
     askFollowUp: "提出更多問題",
@@ -304,8 +693,133 @@ const UI_TEXT = {
   }
 };
 
+// --- STRUCTURED OUTPUT SCHEMAS ---
+// Plain JSON Schema so every provider's JSON mode or tool calling can use them.
+const CLARIFICATION_OUTPUT: StructuredOutput = {
+  name: 'submit_role_clarifications',
+  schema: {
+    type: 'object',
+    properties: {
+      clarifications: { type: 'array', items: {
+          type: 'object',
+          properties: {
+            provider: { type: 'string' },
+            model: { type: 'string' },
+            original_role: { type: 'string' },
+            clarified_tasks: { type: 'string', description: "A list of specific tasks for this role, with each task starting on a new line. Use hyphens for bullet points." },
+            thinking_style: { type: 'string', description: "The suggested mindset or approach for this role." },
+          },
+          required: ["provider", "model", "original_role", "clarified_tasks", "thinking_style"],
+        }
+      }
+    },
+    required: ["clarifications"]
+  }
+};
+
+const COORDINATOR_OUTPUT: StructuredOutput = {
+  name: 'submit_round_plan',
+  schema: {
+    type: 'object', properties: {
+      round_plan: { type: 'object', properties: {
+          calls: { type: 'array', items: { type: 'object', properties: {
+                provider: { type: 'string' }, model: { type: 'string' },
+                role: { type: 'string' }, prompt: { type: 'string' },
+                timeout_sec: { type: 'integer' },
+              }, required: ["provider", "model", "role", "prompt", "timeout_sec"],
+            },
+          },
+          stop_condition: { type: 'string', enum: ["continue", "consensus_formed", "round_limit_reached", "insufficient_information"] },
+        }, required: ["calls", "stop_condition"],
+      },
+      debate_summary: { type: 'string' },
+      final_if_stopped: { type: 'object', description: "Only include this when the discussion stops.", properties: {
+          consensus: { type: 'string' },
+          bullet_summary: { type: 'array', items: { type: 'object', properties: {
+                point: { type: 'string' }, sources: CITATION_SCHEMA,
+              }, required: ["point", "sources"],
+            },
+          },
+          doc_outline: { type: 'array', items: { type: 'string' } },
+          doc_body_blocks: { type: 'array', items: { type: 'object', properties: {
+                heading: { type: 'string' }, content: { type: 'string' }, sources: CITATION_SCHEMA,
+              }, required: ["heading", "content", "sources"],
+            },
+          },
+        },
+      },
+    }, required: ["round_plan", "debate_summary"],
+  }
+};
+
+const PARTICIPANT_OUTPUT: StructuredOutput = {
+  name: 'submit_claims',
+  schema: {
+    type: 'object', properties: {
+      claims: { type: 'array', items: { type: 'object', properties: {
+            statement: { type: 'string', description: "One self-contained claim." },
+            evidence: { type: 'array', items: { type: 'string' }, description: "Facts, sources or reasoning that support the claim." },
+            confidence: { type: 'number', description: "Confidence in the claim, from 0 to 1." },
+          }, required: ["statement", "evidence", "confidence"],
+        },
+      },
+      assumptions: { type: 'array', items: { type: 'string' } },
+      open_questions: { type: 'array', items: { type: 'string' } },
+    }, required: ["claims", "assumptions", "open_questions"],
+  }
+};
+
+const CONSENSUS_OUTPUT: StructuredOutput = {
+  name: 'submit_positions',
+  schema: {
+    type: 'object', properties: {
+      key_questions: { type: 'array', items: { type: 'object', properties: {
+            question: { type: 'string' },
+            positions: { type: 'array', items: { type: 'object', properties: {
+                  provider: { type: 'string' }, model: { type: 'string' },
+                  position: { type: 'string', description: "A short label for the stance. Participants with the same stance get exactly the same label." },
+                }, required: ["provider", "model", "position"],
+              },
+            },
+          }, required: ["question", "positions"],
+        },
+      },
+    }, required: ["key_questions"],
+  }
+};
+
 const API_KEY_STORAGE_ID = 'shadow-clone-api-keys';
 const DISCUSSION_HISTORY_STORAGE_ID = 'multillm-discussion-history';
+const EXECUTION_SETTINGS_STORAGE_ID = 'multillm-execution-settings';
+const COORDINATOR_STORAGE_ID = 'multillm-coordinator-model';
+const CUSTOM_PROVIDERS_STORAGE_ID = 'multillm-custom-providers';
+const HUMAN_PARTICIPANTS_STORAGE_ID = 'multillm-human-participants';
+const EMPTY_CUSTOM_PROVIDER_FORM = { name: '', baseUrl: '', models: '', capabilities: '' };
+const MAIN_BRANCH_ID = 'main';
+const DEFAULT_COORDINATOR: ModelRef = { provider: 'Google', model: 'gemini-2.5-flash' };
+const DEFAULT_EXECUTION_SETTINGS: ExecutionSettings = { maxRetries: 2, baseDelaySec: 2, budgetCapUsd: 0, structuredOutput: false, consensusThreshold: 0 };
+const PRICE_OVERRIDES_STORAGE_ID = 'multillm-price-overrides';
+const AUTOPILOT_SETTINGS_STORAGE_ID = 'multillm-autopilot-settings';
+const PAGE_CACHE_STORAGE_ID = 'multillm-page-cache';
+const DEFAULT_AUTOPILOT_SETTINGS: AutopilotSettings = { maxRounds: 5, budgetUsd: 0, consensusThreshold: 0 };
+// Appended to the coordinator's instructions once participants have answered with numbered claims.
+const CLAIMS_INSTRUCTION = `
+
+CLAIMS: Participants answered with numbered claims (CLAIM n), each with evidence and a confidence score, plus assumptions and open questions. Work from these explicit claims rather than paraphrasing prose: say which claims participants agree on, which conflict, and which rest on weak evidence or low confidence. Refer to claims as "provider/model CLAIM n".`;
+// Text fields are rendered as Markdown, but they sit inside the app's own headings and lists.
+const COORDINATOR_FORMATTING = `FORMATTING: Text fields may use Markdown: paragraphs, lists, **bold** for key terms, tables for comparisons and fenced code blocks with a language tag for code. Keep headings out of "debate_summary" and the key points, and don't repeat a block's "heading" at the top of its "content".`;
+// Appended to every instruction that may produce a final report.
+const CITATION_INSTRUCTION = `
+
+CITATIONS: In the final report, give every key point and every document block the sources it draws on: the round number and provider/model of each participant response, exactly as the discussion history labels them (e.g. round 2, "Google"/"gemini-2.5-pro"). Cite only responses that appear in the history. A point that is your own synthesis cites the responses it combines.`;
+// Appended to the coordinator's planning instructions when people take part.
+const HUMAN_INSTRUCTION = `
+
+HUMAN PARTICIPANTS: Participants whose provider is "${HUMAN_PROVIDER}" are people who type their answers. Address them by name, keep their prompts short and answerable in a few minutes, and ask them for what models can't supply: first-hand context, constraints, preferences and decisions. Treat their answers like any other participant's.`;
+// Used when the coordinator omits timeout_sec or returns something unusable.
+const DEFAULT_CALL_TIMEOUT_SEC = 120;
+// Role for a compared model the user hasn't assigned one to yet.
+const COMPARISON_ROLE = "Independent expert answering the question directly";
 
 interface SavedDiscussion {
   id: string;
@@ -319,34 +833,171 @@ interface SavedDiscussion {
   isFinished: boolean;
   isCodeMode: boolean;
   language: Language;
+  clarificationMetrics?: CallMetrics;
+  discussionStyle?: string;
+  discussionProtocol?: ProtocolId;
+  /** Every branch of the discussion; `history` above is the active one's. */
+  branches?: DiscussionBranch[];
+  activeBranchId?: string;
 }
 
 const InlineLoader = () => <div className="inline-loader"></div>;
 
 /**
- * Aggressively strips markdown and formats text into a clean, readable format.
- * Ensures bullet points are properly formatted on new lines.
+ * Writes `value` to local storage as JSON. Returns false instead of throwing when the quota is full,
+ * since a throw inside an effect would take the whole app down.
+ */
+const saveToStorage = (key: string, value: unknown, replacer?: (key: string, value: unknown) => unknown): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value, replacer));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Tidies AI-generated text for display. The Markdown is kept; MarkdownView renders it.
  * @param text The raw AI-generated text.
- * @returns Cleaned, plain text.
+ * @returns The text without surrounding whitespace or runs of blank lines.
  */
 const formatAIResponse = (text: string | undefined | null): string => {
     if (!text) return '';
     return text
-        // Remove bold and italics
-        .replace(/\*\*(.*?)\*\*/g, '$1')
-        .replace(/\*(.*?)\*/g, '$1')
-        // Remove markdown headers
-        .replace(/^#+\s/gm, '')
-        // Ensure bullet points are on new lines
-        .replace(/\s*-\s/g, '\n- ')
-        // Add double line breaks for paragraph separation
-        .replace(/\n\n+/g, '\n\n')
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 0)
-        .join('\n\n');
+        .replace(/\r\n/g, '\n')
+        // Keep at most one blank line between paragraphs
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+};
+
+/**
+ * Pulls the JSON document out of a model reply. Providers without a strict JSON mode
+ * sometimes wrap it in a code fence or add a sentence around it.
+ */
+const extractJson = (text: string): string => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = (fenced ? fenced[1] : text).trim();
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    return start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate;
+};
+/** Checks a structured participant reply against PARTICIPANT_OUTPUT and cleans its text fields. */
+const parseStructuredResponse = (text: string): StructuredResponse => {
+    const data = JSON.parse(extractJson(text));
+    if (!Array.isArray(data?.claims)) throw new Error('Response does not match the claims schema.');
+    const strings = (value: unknown): string[] =>
+        Array.isArray(value) ? value.filter((s): s is string => typeof s === 'string').map(formatAIResponse) : [];
+    return {
+        claims: data.claims.filter((c: any) => typeof c?.statement === 'string').map((c: any) => ({
+            statement: formatAIResponse(c.statement),
+            evidence: strings(c.evidence),
+            confidence: Math.min(1, Math.max(0, Number(c.confidence) || 0)),
+        })),
+        assumptions: strings(data.assumptions),
+        open_questions: strings(data.open_questions),
+    };
+};
+
+/** Plain-text form of a structured reply, used wherever a `response` string is expected (prompts, memory, exports). */
+const formatStructuredResponse = ({ claims, assumptions, open_questions }: StructuredResponse): string => {
+    const sections = claims.map((claim, i) =>
+        `CLAIM ${i + 1} (confidence ${Math.round(claim.confidence * 100)}%): ${claim.statement}` +
+        (claim.evidence.length > 0 ? `\nEvidence: ${claim.evidence.join('; ')}` : ''));
+    if (assumptions.length > 0) sections.push(`ASSUMPTIONS: ${assumptions.join('; ')}`);
+    if (open_questions.length > 0) sections.push(`OPEN QUESTIONS: ${open_questions.join('; ')}`);
+    return sections.join('\n\n');
+};
+
+const hasStructuredResults = (rounds: RoundHistory[]): boolean =>
+    rounds.some(h => h.execution_results?.some(r => r.structured));
+
+/** Uploads and fetched pages whose text is ready; anything still loading or failed never reaches a prompt. */
+const getSourceDocuments = (files: UploadedFile[], urls: AttachedUrl[]): SourceDocument[] => [
+  ...files.flatMap(file => file.document ? [{ name: file.name, text: file.document.text }] : []),
+  ...urls.flatMap(({ page }) => page ? [{ name: page.title, text: page.text, source: page.finalUrl }] : []),
+];
+
+/** URLs without fetched text, listed so the coordinator knows not to guess at their content. */
+const describeUrls = (urls: AttachedUrl[]): string => {
+  const unavailable = urls.filter(({ page }) => !page);
+  return unavailable.length === 0 ? '' : `URLs whose content could not be fetched (do not guess what they say):\n${unavailable.map(({ url }) => `- ${url}\n`).join('')}\n`;
+};
+
+/** Lists the uploaded images by name; the images themselves travel with each prompt. */
+const describeImageUploads = (files: UploadedFile[]): string => {
+  const images = files.filter(file => file.image);
+  return images.length === 0 ? '' : `Uploaded images (every participant receives them along with its prompt, so refer to them by name):\n${images.map(({ name }) => `- ${name}\n`).join('')}\n`;
+};
+
+/** Stands in for the images when a model can't see them. The header says plainly that these are descriptions. */
+const formatImageDescriptions = (images: { name: string; description: string }[]): string =>
+  `Attached images (you cannot see them; each one was described in text by another model):\n${images.map(({ name, description }) => `\n--- Image: ${name} ---\n${description}\n`).join('')}`;
+
+/** A round as the coordinator's history shows it. */
+const toRoundText = (h: RoundHistory): RoundText => ({
+  round: h.round,
+  summary: h.summary,
+  responses: (h.execution_results || []).map(res => ({ label: `${res.provider}/${res.model}`, text: res.response })),
+  notes: h.consensus && describeConsensus(h.consensus),
+});
+
+/** Results saved before statuses existed only mark failures with an "Error:" prefix. */
+const isUsableResult = (result: ExecutionResult): boolean =>
+    result.status ? result.status === 'done' : !result.response.startsWith('Error:');
+
+/**
+ * Cleans the text of a coordinator's final report and keeps only the citations that point at a
+ * usable response in `rounds`.
+ */
+const cleanFinalReport = (report: CoordinatorFinalReport, rounds: RoundHistory[]): FinalReportData => {
+    const responses = rounds.flatMap(h => (h.execution_results || []).filter(isUsableResult)
+        .map(({ provider, model }) => ({ round: h.round, provider, model })));
+    const points = report.bullet_summary.map(item => typeof item === 'string' ? { point: item } : item);
+    return {
+        ...report,
+        consensus: formatAIResponse(report.consensus),
+        bullet_summary: points.map(({ point }) => formatAIResponse(point)),
+        bullet_sources: points.map(({ sources }) => validateCitations(sources, responses)),
+        doc_body_blocks: report.doc_body_blocks.map(block => ({
+            heading: formatAIResponse(block.heading),
+            content: formatAIResponse(block.content),
+            sources: validateCitations(block.sources, responses),
+        })),
+    };
 };
 
+/** Footnote numbering for a report: key points first, then the document blocks. */
+const getReportFootnotes = (report: FinalReportData): Footnotes =>
+    createFootnotes([...(report.bullet_sources || []), ...report.doc_body_blocks.map(block => block.sources)]);
+
+const EXPORT_FILE_NAMES: Record<ExportScope, string> = { transcript: 'discussion-transcript', report: 'final-report', summary: 'executive-summary' };
+
+/**
+ * Earlier prompt/reply pairs of one participant, oldest first, skipping calls without a usable reply.
+ * Matches on the result's model, since a reassigned call was answered by a different one than planned.
+ */
+const getParticipantTurns = (rounds: RoundHistory[], provider: string, model: string): [ChatMessage, ChatMessage][] =>
+    rounds.flatMap(h => h.plan.calls.flatMap((call, i): [ChatMessage, ChatMessage][] => {
+        const result = h.execution_results?.[i];
+        if (!result || result.provider !== provider || result.model !== model || !isUsableResult(result)) return [];
+        return [[{ role: 'user', content: result.sent_prompt ?? call.prompt }, { role: 'assistant', content: result.response }]];
+    }));
+
+/**
+ * Appends the responses given earlier in the same round so a participant can rebut or build on them.
+ * Anonymous protocols label them "Panelist A", "Panelist B", ... instead of naming the model.
+ */
+const buildRebuttalPrompt = (call: Call, earlier: { call: Call; result: ExecutionResult }[], anonymous = false): string => {
+    if (earlier.length === 0) return call.prompt;
+    let prompt = `${call.prompt}\n\n--- Earlier responses in this round ---\n`;
+    earlier.forEach(({ call: c, result }, i) => {
+        // Named after the model that answered, which differs from the planned one once a turn is reassigned.
+        const speaker = anonymous ? `Panelist ${String.fromCharCode(65 + i)}` : `${result.provider}/${result.model} (${c.role})`;
+        prompt += `[${speaker}]:\n${result.response}\n\n`;
+    });
+    prompt += `Engage directly with these responses: challenge what you disagree with and build on what you agree with.`;
+    return prompt;
+};
 
 // --- MAIN APP COMPONENT ---
 const App = () => {
@@ -370,14 +1021,21 @@ const App = () => {
   });
   const [isAskingFollowUp, setIsAskingFollowUp] = useState(false);
   const [followUpQuestion, setFollowUpQuestion] = useState("");
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
-  const [urls, setUrls] = useState<string[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [urls, setUrls] = useState<AttachedUrl[]>([]);
+  const [pageCache, setPageCache] = useState<Record<string, ExtractedPage>>(() => {
+    try {
+      return prunePageCache(JSON.parse(localStorage.getItem(PAGE_CACHE_STORAGE_ID) || '{}'));
+    } catch { return {}; }
+  });
+  const [pageSource, setPageSource] = useState<PageSource>('proxy');
   const [newUrl, setNewUrl] = useState("");
   const [isCodeMode, setIsCodeMode] = useState(false);
   const [codeInput, setCodeInput] = useState("");
   const [errorDescription, setErrorDescription] = useState("");
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
   const [discussionStyle, setDiscussionStyle] = useState("Professional");
+  const [discussionProtocol, setDiscussionProtocol] = useState<ProtocolId>('open');
   const [savedDiscussions, setSavedDiscussions] = useState<SavedDiscussion[]>(() => {
     try {
       return JSON.parse(localStorage.getItem(DISCUSSION_HISTORY_STORAGE_ID) || '[]');
@@ -386,80 +1044,280 @@ const App = () => {
   const [showHistoryModal, setShowHistoryModal] = useState(false);
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
   const [isDiscussionSaved, setIsDiscussionSaved] = useState(false);
+  const [customProviders, setCustomProviderConfigs] = useState<CustomProviderConfig[]>(() => {
+    try {
+      const configs: CustomProviderConfig[] = JSON.parse(localStorage.getItem(CUSTOM_PROVIDERS_STORAGE_ID) || '[]');
+      setCustomProviders(configs);
+      return configs;
+    } catch (e) { return []; }
+  });
+  const [customProviderForm, setCustomProviderForm] = useState(EMPTY_CUSTOM_PROVIDER_FORM);
+  const [humanParticipants, setHumanParticipantNames] = useState<string[]>(() => {
+    try {
+      const names: string[] = JSON.parse(localStorage.getItem(HUMAN_PARTICIPANTS_STORAGE_ID) || '[]');
+      setHumanParticipants(names);
+      return names;
+    } catch (e) { return []; }
+  });
+  const [humanNameInput, setHumanNameInput] = useState("");
+  const [humanDrafts, setHumanDrafts] = useState<Record<number, string>>({});
+  const [isEditingPlan, setIsEditingPlan] = useState(false);
+  // Empty until the first fork; until then the live state is the only (main) branch.
+  const [branches, setBranches] = useState<DiscussionBranch[]>([]);
+  const [activeBranchId, setActiveBranchId] = useState(MAIN_BRANCH_ID);
+  const [branchDraft, setBranchDraft] = useState<BranchDraft | null>(null);
+  const [compareBranchId, setCompareBranchId] = useState<string | null>(null);
+  const [newCallModel, setNewCallModel] = useState("");
+  const [reassignTargets, setReassignTargets] = useState<Record<number, string>>({});
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [showRawText, setShowRawText] = useState(false);
+  const [exportScope, setExportScope] = useState<ExportScope>('transcript');
+  // The response a clicked citation points at, flashed for a moment.
+  const [highlightedSource, setHighlightedSource] = useState<Citation | null>(null);
+  const [priceOverrides, setPriceOverrides] = useState<PriceTable>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(PRICE_OVERRIDES_STORAGE_ID) || '{}');
+    } catch (e) { return {}; }
+  });
+  const [executionMode, setExecutionMode] = useState<ExecutionMode>('parallel');
+  const [testMode, setTestMode] = useState<TestMode>('off');
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [replayFixture, setReplayFixture] = useState<{ name: string; size: number } | null>(null);
+  const [clarificationMetrics, setClarificationMetrics] = useState<CallMetrics | null>(null);
+  const [coordinatorModel, setCoordinatorModel] = useState<ModelRef>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(COORDINATOR_STORAGE_ID) || 'null') || DEFAULT_COORDINATOR;
+    } catch (e) { return DEFAULT_COORDINATOR; }
+  });
+  const [executionSettings, setExecutionSettings] = useState<ExecutionSettings>(() => {
+    try {
+      return { ...DEFAULT_EXECUTION_SETTINGS, ...JSON.parse(localStorage.getItem(EXECUTION_SETTINGS_STORAGE_ID) || '{}') };
+    } catch (e) { return DEFAULT_EXECUTION_SETTINGS; }
+  });
+  const [autopilotSettings, setAutopilotSettings] = useState<AutopilotSettings>(() => {
+    try {
+      return { ...DEFAULT_AUTOPILOT_SETTINGS, ...JSON.parse(localStorage.getItem(AUTOPILOT_SETTINGS_STORAGE_ID) || '{}') };
+    } catch (e) { return DEFAULT_AUTOPILOT_SETTINGS; }
+  });
+  const [isAutopilotRunning, setIsAutopilotRunning] = useState(false);
+  const [autopilotStatus, setAutopilotStatus] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
 
   const resultsEndRef = useRef<HTMLDivElement>(null);
+  const roundAbortRef = useRef<AbortController | null>(null);
+  const recordedEntriesRef = useRef<FixtureEntry[]>([]);
+  const replaySessionRef = useRef<ReplaySession | null>(null);
+  const autopilotInterruptRef = useRef(false);
+  // Resolvers for human seats the running round is waiting on, keyed by call index.
+  const humanAnswerRef = useRef<Record<number, (answer: string) => void>>({});
+  // Image descriptions by upload id, pending or done, so parallel calls share one request per image.
+  const imageDescriptionsRef = useRef<Record<string, Promise<string>>>({});
   const t = UI_TEXT[language];
+  const isPreparingSources = uploadedFiles.some(file => file.status === 'extracting') || urls.some(url => url.status === 'fetching');
   const flatSelectedModels = Object.entries(selectedModels).flatMap(([p, m]) => m.map(model => ({ provider: p, model })));
+  // Providers that need a key: every participant's, plus the coordinator's.
+  const requiredKeyProviders = Array.from(new Set([...Object.keys(selectedModels), coordinatorModel.provider])).filter(p => p !== HUMAN_PROVIDER);
+  const isReplaying = testMode === 'replay' && replayFixture !== null;
+  const hasApiKey = (provider: string) => isReplaying || !!apiKeys[provider] || getProvider(provider)?.requiresApiKey === false;
+
+  /** The registry adapter for `provider`, wrapped for recording or swapped for replay when a test mode is on. */
+  const resolveAdapter = (provider: string): ProviderAdapter | undefined => {
+    const adapter = getProvider(provider);
+    if (!adapter) return undefined;
+    if (isReplaying && replaySessionRef.current) return replaySessionRef.current.adapterFor(adapter);
+    if (testMode === 'record') {
+      return withRecording(adapter, entry => {
+        recordedEntriesRef.current.push(entry);
+        setRecordedCount(recordedEntriesRef.current.length);
+      });
+    }
+    return adapter;
+  };
+
+  // --- Usage & budget ---
+  const priceTable = buildPriceTable(priceOverrides);
+  // Alternates were paid for too, even if the coordinator never sees them.
+  const roundMetrics = (h: RoundHistory): CallMetrics[] => [
+    ...(h.coordinator_calls || []),
+    ...(h.execution_results || []).flatMap(r => [r, ...(r.alternates || [])]),
+  ];
+  /** Every call paid for so far, given `rounds` as the discussion history. */
+  const metricsFor = (rounds: RoundHistory[]): CallMetrics[] => [
+    ...(clarificationMetrics ? [clarificationMetrics] : []),
+    ...uploadedFiles.flatMap(file => file.description ? [file.description.metrics] : []),
+    ...rounds.flatMap(roundMetrics),
+  ];
+  const allMetrics = metricsFor(history);
+  const spentUsd = sumMetrics(allMetrics, priceTable).costUsd;
+  /**
+   * Whether planning or executing the next round would go past `capUsd`, the spending cap unless
+   * autopilot asks about its own budget. The last fully executed round is our best guess at what the
+   * next one will cost. Takes the history so autopilot can ask about the rounds it has run, which
+   * the rendered state doesn't hold yet.
+   */
+  const wouldExceedBudget = (rounds: RoundHistory[], step: 'plan' | 'execute', capUsd: number = executionSettings.budgetCapUsd) => {
+    if (capUsd <= 0) return false;
+    const lastExecuted = [...rounds].reverse().find(h => h.execution_results);
+    const projected = !lastExecuted ? [] : step === 'plan' ? roundMetrics(lastExecuted) : lastExecuted.execution_results!;
+    return sumMetrics([...metricsFor(rounds), ...projected], priceTable).costUsd > capUsd;
+  };
+  const isPlanOverBudget = wouldExceedBudget(history, 'plan');
+  const latestPlan = history[history.length - 1]?.plan;
+  const isLatestPlanRunnable = !!latestPlan && latestPlan.calls.length > 0 && latestPlan.calls.every(call => call.prompt.trim());
+  const isExecuteOverBudget = wouldExceedBudget(history, 'execute');
 
   useEffect(() => {
     localStorage.setItem(API_KEY_STORAGE_ID, JSON.stringify(apiKeys));
   }, [apiKeys]);
 
   useEffect(() => {
-    localStorage.setItem(DISCUSSION_HISTORY_STORAGE_ID, JSON.stringify(savedDiscussions));
+    // Prompts as sent repeat every attached document, so they stay out of storage; a loaded
+    // discussion's memory falls back to the planned prompts.
+    const saved = saveToStorage(DISCUSSION_HISTORY_STORAGE_ID, savedDiscussions, (key, value) => key === 'sent_prompt' ? undefined : value);
+    if (!saved) setError(t.storageFull);
   }, [savedDiscussions]);
 
+  useEffect(() => {
+    localStorage.setItem(CUSTOM_PROVIDERS_STORAGE_ID, JSON.stringify(customProviders));
+  }, [customProviders]);
+
+  useEffect(() => {
+    localStorage.setItem(HUMAN_PARTICIPANTS_STORAGE_ID, JSON.stringify(humanParticipants));
+  }, [humanParticipants]);
+
+  useEffect(() => {
+    localStorage.setItem(PRICE_OVERRIDES_STORAGE_ID, JSON.stringify(priceOverrides));
+  }, [priceOverrides]);
+
+  useEffect(() => {
+    localStorage.setItem(COORDINATOR_STORAGE_ID, JSON.stringify(coordinatorModel));
+  }, [coordinatorModel]);
+
+  useEffect(() => {
+    localStorage.setItem(EXECUTION_SETTINGS_STORAGE_ID, JSON.stringify(executionSettings));
+  }, [executionSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(AUTOPILOT_SETTINGS_STORAGE_ID, JSON.stringify(autopilotSettings));
+  }, [autopilotSettings]);
+
+  useEffect(() => {
+    // The cache only saves refetching, so when storage is full it gives up its oldest pages until it fits.
+    let cache = pageCache;
+    while (!saveToStorage(PAGE_CACHE_STORAGE_ID, cache) && Object.keys(cache).length > 0) {
+      cache = pageCacheSize(cache) > 0 ? prunePageCache(cache, Math.floor(pageCacheSize(cache) / 2)) : {};
+    }
+  }, [pageCache]);
+
   useEffect(() => {
     resultsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [history]);
 
-  // --- API Schemas ---
-  const clarificationSchema = {
-    type: Type.OBJECT,
-    properties: {
-      clarifications: { type: Type.ARRAY, items: {
-          type: Type.OBJECT,
-          properties: {
-            provider: { type: Type.STRING },
-            model: { type: Type.STRING },
-            original_role: { type: Type.STRING },
-            clarified_tasks: { type: Type.STRING, description: "A list of specific tasks for this role, with each task starting on a new line. Use hyphens for bullet points." },
-            thinking_style: { type: Type.STRING, description: "The suggested mindset or approach for this role." },
-          },
-          required: ["provider", "model", "original_role", "clarified_tasks", "thinking_style"],
-        }
-      }
-    },
-    required: ["clarifications"]
+  useEffect(() => {
+    if (!highlightedSource) return;
+    const timer = setTimeout(() => setHighlightedSource(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedSource]);
+
+  // --- Tone & protocol ---
+  const protocol = getProtocol(discussionProtocol);
+  const styleTone = getStyleTone(discussionStyle);
+  const toneInstruction = `\n\nTONE: Write in a ${styleTone}, and phrase participant prompts so they use it too.`;
+  const protocolPlanning = protocol.planning ? `\n\nPROTOCOL: ${protocol.planning}` : '';
+  const protocolReport = protocol.report ? `\n\nFINAL REPORT LAYOUT: ${protocol.report}` : '';
+
+  const getCoordinator = () => {
+    const adapter = resolveAdapter(coordinatorModel.provider);
+    const apiKey = apiKeys[coordinatorModel.provider] || '';
+    if (!adapter || !hasApiKey(coordinatorModel.provider)) {
+      setError(t.coordinatorApiKeyRequired(coordinatorModel.provider));
+      return null;
+    }
+    return { adapter, apiKey };
   };
 
-  const coordinatorSchema = {
-    type: Type.OBJECT, properties: {
-      round_plan: { type: Type.OBJECT, properties: {
-          calls: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: {
-                provider: { type: Type.STRING }, model: { type: Type.STRING },
-                role: { type: Type.STRING }, prompt: { type: Type.STRING },
-                timeout_sec: { type: Type.INTEGER },
-              }, required: ["provider", "model", "role", "prompt", "timeout_sec"],
-            },
-          },
-          stop_condition: { type: Type.STRING, enum: ["continue", "consensus_formed", "round_limit_reached", "insufficient_information"] },
-        }, required: ["calls", "stop_condition"],
-      },
-      debate_summary: { type: Type.STRING },
-      final_if_stopped: { type: Type.OBJECT, nullable: true, properties: {
-          consensus: { type: Type.STRING },
-          bullet_summary: { type: Type.ARRAY, items: { type: Type.STRING } },
-          doc_outline: { type: Type.ARRAY, items: { type: Type.STRING } },
-          doc_body_blocks: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: {
-                heading: { type: Type.STRING }, content: { type: Type.STRING },
-              }, required: ["heading", "content"],
-            },
-          },
-        },
-      },
-    }, required: ["round_plan", "debate_summary"],
+  /** Describes an image for models without vision, using the coordinator if it can see images, else a participant that can. */
+  const describeImage = (file: ImageUpload): Promise<string> => {
+    if (file.description) return Promise.resolve(file.description.text);
+    const describer = [coordinatorModel, ...flatSelectedModels].find(({ provider, model }) => supportsVision(provider, model) && hasApiKey(provider));
+    const adapter = describer && resolveAdapter(describer.provider);
+    if (!describer || !adapter) return Promise.resolve('(No model that can view images was available to describe this one.)');
+
+    imageDescriptionsRef.current[file.id] ||= (async () => {
+      const startedAt = performance.now();
+      const { text, usage } = await adapter.generate({
+        apiKey: apiKeys[describer.provider] || '', model: describer.model,
+        systemInstruction: 'You describe images for readers who cannot see them. Transcribe all visible text exactly, including code, error messages and numbers. Then describe the layout, any charts or diagrams and what they show, and anything else needed to reason about the image. Do not guess at what is not visible.',
+        prompt: `Describe the attached image "${file.name}".`,
+        images: [file.image],
+      });
+      const description = { text: text.trim(), metrics: { ...describer, usage, latency_ms: Math.round(performance.now() - startedAt) } };
+      setUploadedFiles(prev => prev.map(f => f.id === file.id ? { ...f, description } : f));
+      return description.text;
+    })().catch(e => {
+      // Forget the failure so the next call tries again.
+      delete imageDescriptionsRef.current[file.id];
+      console.error(`Describing ${file.name} failed:`, e);
+      return `(This image could not be described: ${e.message})`;
+    });
+    return imageDescriptionsRef.current[file.id];
   };
 
-  const getGoogleAI = () => {
-    const googleApiKey = apiKeys['Google'];
-    if (!googleApiKey) {
-      setError(t.googleApiKeyRequired);
-      return null;
-    }
-    return new GoogleGenAI({ apiKey: googleApiKey });
-  }
+  /** Adds the uploaded images to a call: inline for models with vision, otherwise as text descriptions appended to `prompt`. */
+  const attachImages = async ({ provider, model }: ModelRef, prompt: string): Promise<{ prompt: string; images?: ImageInput[]; info?: ExecutionResult['images'] }> => {
+    const files = uploadedFiles.filter((file): file is ImageUpload => !!file.image);
+    if (files.length === 0) return { prompt };
+    if (supportsVision(provider, model)) return { prompt, images: files.map(file => file.image), info: { count: files.length, described: false } };
+    const descriptions = await Promise.all(files.map(describeImage));
+    return {
+      prompt: `${prompt}\n\n${formatImageDescriptions(files.map(({ name }, i) => ({ name, description: descriptions[i] })))}`,
+      info: { count: files.length, described: true },
+    };
+  };
+
+  /**
+   * Runs one structured coordinator call on whichever provider/model the user picked.
+   * `withImages` sends the uploaded images too, for calls that plan around them.
+   */
+  const runCoordinator = async <T,>(coordinator: { adapter: ProviderAdapter; apiKey: string }, systemInstruction: string, prompt: string, responseSchema: StructuredOutput, withImages = false): Promise<{ data: T; metrics: CallMetrics }> => {
+    const attached = withImages ? await attachImages(coordinatorModel, prompt) : { prompt };
+    const startedAt = performance.now();
+    const { text, usage } = await coordinator.adapter.generate({
+      apiKey: coordinator.apiKey, model: coordinatorModel.model, systemInstruction, prompt: attached.prompt, images: attached.images, responseSchema,
+    });
+    return {
+      data: JSON.parse(extractJson(text)),
+      metrics: { ...coordinatorModel, usage, latency_ms: Math.round(performance.now() - startedAt) },
+    };
+  };
+
+  /** Fits the uploads and `rounds` into the coordinator's context window around `fixedText`. */
+  const buildCoordinatorContext = (fixedText: string, rounds: RoundHistory[], query: string) => buildContext({
+    contextWindow: getContextWindow(coordinatorModel.provider, coordinatorModel.model),
+    fixedText,
+    documents: getSourceDocuments(uploadedFiles, urls),
+    rounds: rounds.map(toRoundText),
+    query,
+  });
+
+  /** The participant list shared by the planning and final-report prompts. */
+  const describeParticipants = (): string => {
+    let text = `Participants and their detailed roles:\n`;
+    flatSelectedModels.forEach(({ provider, model }) => {
+        const key = `${provider}/${model}`;
+        const initialRole = modelRoles[provider]?.[model] || '';
+        const clarification = clarifiedRoles[key];
+        text += `- ${key} (Role: ${initialRole})\n`;
+        const capabilities = getProvider(provider)?.capabilities.en;
+        if (capabilities) {
+            text += `  Strengths: ${capabilities}\n`;
+        }
+        if (clarification) {
+            text += `  Tasks: ${clarification.clarified_tasks}\n  Thinking Style: ${clarification.thinking_style}\n`;
+        }
+    });
+    return text;
+  };
 
   // --- API Handlers ---
   const readFileContent = (file: File): Promise<string> => {
@@ -480,51 +1338,24 @@ const App = () => {
     }
     
     setLoadingAction('clarify'); setError(null);
-    const ai = getGoogleAI();
-    if (!ai) { setLoadingAction(null); return; }
+    const coordinator = getCoordinator();
+    if (!coordinator) { setLoadingAction(null); return; }
 
-    const systemInstruction = `You are a "Project Manager" AI. Your job is to take a user's ${isCodeMode ? 'code debugging request' : 'topic'}, any uploaded files or URLs, and a list of high-level company roles for different AI models. Your task is to break down each role into a concrete, actionable plan considering the provided materials. For each model, define its specific tasks (as a bulleted list, with each task starting on a new line with a hyphen) and a recommended thinking style to best contribute to the ${isCodeMode ? 'code analysis and debugging' : 'discussion on the given topic'}. Respond ONLY with a JSON object adhering to the schema. CRITICAL: ALL text content in the JSON response (clarified_tasks and thinking_style fields) MUST be written in ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}. Do not mix languages.`;
+    const systemInstruction = `You are a "Project Manager" AI. Your job is to take a user's ${isCodeMode ? 'code debugging request' : 'topic'}, any uploaded files or URLs, and a list of high-level company roles for different AI models. Your task is to break down each role into a concrete, actionable plan considering the provided materials. For each model, define its specific tasks (as a bulleted list, with each task starting on a new line with a hyphen) and a recommended thinking style to best contribute to the ${isCodeMode ? 'code analysis and debugging' : 'discussion on the given topic'}. Respond ONLY with a JSON object adhering to the schema. CRITICAL: ALL text content in the JSON response (clarified_tasks and thinking_style fields) MUST be written in ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}. Do not mix languages.${toneInstruction}`;
 
-    let userPrompt = isCodeMode ? 
+    const subject = isCodeMode ? 
       `Code Debug Session\n\nCode to analyze:\n\`\`\`\n${codeInput}\n\`\`\`\n\n${errorDescription ? `Issue description: ${errorDescription}\n\n` : ''}` :
       `Topic: "${topic}"\n\n`;
-    
-    if (uploadedFiles.length > 0) {
-      userPrompt += `Uploaded Files:\n`;
-      try {
-        for (const file of uploadedFiles) {
-          const content = await readFileContent(file);
-          userPrompt += `\n--- File: ${file.name} ---\n${content}\n`;
-        }
-      } catch (error) {
-        console.error('Error reading file:', error);
-        setError('Error reading uploaded files');
-        setLoadingAction(null);
-        return;
-      }
-      userPrompt += `\n`;
-    }
-    
-    if (urls.length > 0) {
-      userPrompt += `URLs to analyze:\n`;
-      urls.forEach(url => {
-        userPrompt += `- ${url}\n`;
-      });
-      userPrompt += `\n`;
-    }
-    
-    userPrompt += `Roles:\n`;
+    let rolesText = `Roles:\n`;
     flatSelectedModels.forEach(({ provider, model }) => {
-      userPrompt += `- ${provider}/${model}: ${modelRoles[provider]?.[model]}\n`;
+      rolesText += `- ${provider}/${model}: ${modelRoles[provider]?.[model]}\n`;
     });
+    const { documentsText } = buildCoordinatorContext(systemInstruction + subject + describeUrls(urls) + describeImageUploads(uploadedFiles) + rolesText, [], subject + rolesText);
+    const userPrompt = subject + documentsText + describeUrls(urls) + describeImageUploads(uploadedFiles) + rolesText;
 
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash', contents: userPrompt,
-        config: { systemInstruction, responseMimeType: 'application/json', responseSchema: clarificationSchema }
-      });
-
-      const parsed: ClarificationResponse = JSON.parse(response.text.trim());
+      const { data: parsed, metrics } = await runCoordinator<ClarificationResponse>(coordinator, systemInstruction, userPrompt, CLARIFICATION_OUTPUT, true);
+      setClarificationMetrics(metrics);
       const newClarifiedRoles: ClarifiedRoles = {};
       parsed.clarifications.forEach(c => {
         newClarifiedRoles[`${c.provider}/${c.model}`] = {
@@ -541,110 +1372,539 @@ const App = () => {
     }
   };
 
-  const handleProcessRound = async (followUpQuestion?: string) => {
+  /** Plans the next round. Resolves to the updated history, or null if planning failed. */
+  const handleProcessRound = async (followUpQuestion?: string, rounds: RoundHistory[] = history): Promise<RoundHistory[] | null> => {
+    if (wouldExceedBudget(rounds, 'plan')) { setError(t.budgetExceeded); return null; }
     setLoadingAction(followUpQuestion ? 'continue' : 'process'); 
     setError(null);
-    const ai = getGoogleAI();
-    if (!ai) { setLoadingAction(null); return; }
+    const coordinator = getCoordinator();
+    if (!coordinator) { setLoadingAction(null); return null; }
 
     const systemInstruction = `You are a world-class "Coordinator" for a multi-LLM discussion. Your sole purpose is to manage a round-based collaboration to explore a user's topic. Analyze the history and the results of the previous round's execution. Based on this, plan the next round by creating diverse, parallel tasks for each model that respect their defined roles. Summarize progress, decide if the discussion should continue, and generate a final report if it stops. 
 
 CRITICAL LANGUAGE REQUIREMENT: Regardless of what language the user's topic or input is written in, you MUST respond ONLY in ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}. Do not match the user's input language - always use ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'} for ALL text fields in your JSON response.
 
-FORMATTING REQUIREMENT: For better readability, you may use:
-- Numbers for lists (1. 2. 3.)
-- Capital letters for emphasis instead of **bold**
-- Line breaks to separate sections
-- Simple text formatting like "SECTION:" for headers
-Do NOT use Markdown syntax like **, *, #, etc.
+${COORDINATOR_FORMATTING}
 
-Respond ONLY with a JSON object adhering to the provided schema.`;
+Respond ONLY with a JSON object adhering to the provided schema.${hasStructuredResults(rounds) ? CLAIMS_INSTRUCTION : ''}${selectedModels[HUMAN_PROVIDER]?.length ? HUMAN_INSTRUCTION : ''}${CITATION_INSTRUCTION}${toneInstruction}${protocolPlanning}${protocolReport}${executionMode === 'sequential' ? `
 
-    let userPrompt = `Topic: "${topic}"\n\n`;
-    
-    if (uploadedFiles.length > 0) {
-      userPrompt += `Uploaded Files:\n`;
-      try {
-        for (const file of uploadedFiles) {
-          const content = await readFileContent(file);
-          userPrompt += `\n--- File: ${file.name} ---\n${content}\n`;
-        }
-      } catch (error) {
-        console.error('Error reading file:', error);
-      }
-      userPrompt += `\n`;
-    }
-    
-    if (urls.length > 0) {
-      userPrompt += `URLs to analyze:\n`;
-      urls.forEach(url => {
-        userPrompt += `- ${url}\n`;
-      });
-      userPrompt += `\n`;
-    }
-    
-    userPrompt += `Participants and their detailed roles:\n`;
-    flatSelectedModels.forEach(({ provider, model }) => {
-        const key = `${provider}/${model}`;
-        const initialRole = modelRoles[provider]?.[model] || '';
-        const clarification = clarifiedRoles[key];
-        userPrompt += `- ${key} (Role: ${initialRole})\n`;
-        if (clarification) {
-            userPrompt += `  Tasks: ${clarification.clarified_tasks}\n  Thinking Style: ${clarification.thinking_style}\n`;
-        }
-    });
+EXECUTION ORDER: The calls you plan will run one after another in the order you list them, and each participant will be shown the earlier participants' responses from the same round. Order the calls so later participants can challenge or build on earlier ones.` : ''}`;
 
-    if (history.length > 0) {
-        userPrompt += "\nDiscussion History:\n";
-        history.forEach(h => {
-            userPrompt += `--- Round ${h.round} Summary ---\n${h.summary}\n`;
-            if (h.execution_results) {
-                userPrompt += `\n--- Round ${h.round} Execution Results ---\n`;
-                h.execution_results.forEach(res => {
-                    userPrompt += `[${res.provider}/${res.model} RESPONSE]:\n${res.response}\n\n`;
-                });
-            }
-        });
-    }
-    
+    let request: string;
     if (followUpQuestion) {
-        const finalReport = history[history.length - 1]?.final_report;
-        userPrompt += `\n--- PREVIOUS FINAL REPORT ---\nConsensus: ${finalReport?.consensus}\nKey Points: ${finalReport?.bullet_summary.join(', ')}\n\n`;
-        userPrompt += `The user has reviewed the final report and has a follow-up question: "${followUpQuestion}". Please generate a new plan to address this question and continue the discussion.`;
-    } else if (history.length > 0) {
-        userPrompt += `\nBased on the latest results, generate the plan for Round ${history.length + 1}.`;
+        const finalReport = rounds[rounds.length - 1]?.final_report;
+        if (finalReport) {
+            request = `\n--- PREVIOUS FINAL REPORT ---\nConsensus: ${finalReport.consensus}\nKey Points: ${finalReport.bullet_summary.join(', ')}\n\n`;
+            request += `The user has reviewed the final report and has a follow-up question: "${followUpQuestion}". Please generate a new plan to address this question and continue the discussion.`;
+        } else {
+            // A branch forked mid-discussion has no report yet to follow up on.
+            request = `\nThe user has a follow-up question: "${followUpQuestion}". Please generate a new plan to address this question and continue the discussion.`;
+        }
+    } else if (rounds.length > 0) {
+        request = `\nBased on the latest results, generate the plan for Round ${rounds.length + 1}.`;
     } else {
-        userPrompt += "\nThis is the first round. Generate the initial plan.";
+        request = "\nThis is the first round. Generate the initial plan.";
     }
 
+    // Documents are ranked against what the next round is likely to be about.
+    const latestRound = rounds[rounds.length - 1];
+    const participantsText = describeParticipants();
+    const context = buildCoordinatorContext(
+        systemInstruction + topic + describeUrls(urls) + describeImageUploads(uploadedFiles) + participantsText + request,
+        rounds,
+        [topic, followUpQuestion, latestRound?.summary, ...(latestRound?.plan.calls.map(call => call.prompt) || [])].join('\n'),
+    );
+    let userPrompt = `Topic: "${topic}"\n\n${context.documentsText}${describeUrls(urls)}${describeImageUploads(uploadedFiles)}${participantsText}`;
+    if (context.historyText) userPrompt += `\nDiscussion History:\n${context.historyText}`;
+    userPrompt += request;
+
 
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash', contents: userPrompt,
-        config: { systemInstruction, responseMimeType: 'application/json', responseSchema: coordinatorSchema }
-      });
-      const parsed: CoordinatorResponse = JSON.parse(response.text.trim());
+      const { data: parsed, metrics } = await runCoordinator<CoordinatorResponse>(coordinator, systemInstruction, userPrompt, COORDINATOR_OUTPUT, true);
       
       // Clean all AI-generated text fields
-      const cleanedFinalReport = parsed.final_if_stopped ? {
-        ...parsed.final_if_stopped,
-        consensus: formatAIResponse(parsed.final_if_stopped.consensus),
-        bullet_summary: parsed.final_if_stopped.bullet_summary.map(formatAIResponse),
-        doc_body_blocks: parsed.final_if_stopped.doc_body_blocks.map(block => ({
-            heading: formatAIResponse(block.heading),
-            content: formatAIResponse(block.content),
-        })),
-      } : undefined;
+      const cleanedFinalReport = parsed.final_if_stopped ? cleanFinalReport(parsed.final_if_stopped, rounds) : undefined;
 
       const newHistoryItem: RoundHistory = {
-        round: history.length + 1,
+        round: rounds.length + 1,
         summary: formatAIResponse(parsed.debate_summary),
-        plan: parsed.round_plan,
+        // Drop any call the coordinator addressed to a provider the registry doesn't know.
+        plan: { ...parsed.round_plan, calls: parsed.round_plan.calls.filter(call => getProvider(call.provider)) },
         final_report: cleanedFinalReport,
+        coordinator_calls: [metrics],
+        context_report: context.report,
       };
       if (parsed.round_plan.stop_condition !== "continue") setIsFinished(true);
-      setHistory([...history, newHistoryItem]);
+      const plannedHistory = [...rounds, newHistoryItem];
+      setHistory(plannedHistory);
       setAppStep('DISCUSSION');
+      return plannedHistory;
+    } catch (e) {
+      console.error(e); setError(t.errorOccurred);
+      return null;
+    } finally {
+      setLoadingAction(null);
+    }
+  };
+
+  /** Patches one result of the latest round in place; cards render straight from execution_results. */
+  const updateResult = (index: number, update: (result: ExecutionResult) => ExecutionResult) => {
+    setHistory(prevHistory => prevHistory.map((h, i) => i !== prevHistory.length - 1 || !h.execution_results ? h : {
+        ...h,
+        execution_results: h.execution_results.map((r, j) => j === index ? update(r) : r),
+    }));
+  };
+
+  // A human seat has no provider call: its card shows an answer box and the round waits for the answer.
+  const executeHumanCall = (call: Call, index: number, roundSignal: AbortSignal): Promise<ExecutionResult> => new Promise(resolve => {
+    const startedAt = performance.now();
+    const finish = (response: string, status: ExecutionStatus) => {
+        delete humanAnswerRef.current[index];
+        roundSignal.removeEventListener('abort', onRoundCancel);
+        resolve({ provider: call.provider, model: call.model, response, status, latency_ms: Math.round(performance.now() - startedAt) });
+    };
+    const onRoundCancel = () => finish('', 'cancelled');
+    roundSignal.addEventListener('abort', onRoundCancel);
+    humanAnswerRef.current[index] = answer => finish(answer.trim(), 'done');
+    updateResult(index, r => ({ ...r, status: 'awaiting_input' }));
+  });
+
+  /**
+   * Runs one call of the latest round and streams it into result `index`. `rounds` supplies the
+   * participant's memory; `roundSignal` is the round's "Cancel" switch. `onUpdate` lets a
+   * comparison stream into its own results instead.
+   */
+  const executeCall = async (call: Call, index: number, rounds: RoundHistory[], roundSignal: AbortSignal, prompt: string = call.prompt, onUpdate = updateResult): Promise<ExecutionResult> => {
+    if (call.provider === HUMAN_PROVIDER) return executeHumanCall(call, index, roundSignal);
+    const apiKey = apiKeys[call.provider] || '';
+    // Describing images for a model without vision happens before its timeout starts.
+    const attached = await attachImages(call, prompt);
+    const images = attached.info;
+    const sent_prompt = attached.prompt !== call.prompt ? attached.prompt : undefined;
+    // One controller per call, aborted either by its own timeout or by "Cancel round".
+    const callController = new AbortController();
+    let timedOut = false;
+    const timeoutSec = call.timeout_sec > 0 ? call.timeout_sec : DEFAULT_CALL_TIMEOUT_SEC;
+    const timer = setTimeout(() => { timedOut = true; callController.abort(); }, timeoutSec * 1000);
+    const onRoundCancel = () => callController.abort();
+    roundSignal.addEventListener('abort', onRoundCancel);
+    // The round may have been cancelled while the images were being described.
+    if (roundSignal.aborted) callController.abort();
+    let partialResponse = '';
+    const startedAt = performance.now();
+    const elapsedMs = () => Math.round(performance.now() - startedAt);
+
+    const { structuredOutput } = executionSettings;
+    const systemInstruction = structuredOutput ? `Your role is: ${call.role}.
+Respond ONLY with a JSON object adhering to the provided schema. Break your position into separate claims, list the evidence behind each one and give your confidence in it from 0 to 1. Also list the assumptions you are making and the questions that remain open.
+Keep each string to inline Markdown at most: **bold**, *italic* and \`code\`.
+All text in the JSON must be in ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}.
+Use a ${styleTone}.` : `Your role is: ${call.role}.
+Format your response in Markdown: headings and lists for structure, tables for comparisons, and fenced code blocks with a language tag for any code.
+The response language must be ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}.
+Use a ${styleTone}.`;
+    // The participant's own thread from earlier rounds, trimmed to its model's context window.
+    const thread = fitThread(
+        getParticipantTurns(rounds.slice(0, -1), call.provider, call.model),
+        systemInstruction + attached.prompt,
+        getContextWindow(call.provider, call.model),
+    );
+    const memory = { turns: thread.turns, dropped: thread.dropped };
+
+    try {
+        const adapter = resolveAdapter(call.provider);
+        if (!adapter) {
+            throw new Error(`Unsupported provider: ${call.provider}`);
+        }
+        const { text: responseText, usage } = await withRetry(() => adapter.generate({
+            apiKey, model: call.model, systemInstruction, history: thread.messages, prompt: attached.prompt, images: attached.images,
+            signal: callController.signal,
+            // Half-streamed JSON isn't worth showing, so structured calls wait for the whole reply.
+            ...(structuredOutput ? { responseSchema: PARTICIPANT_OUTPUT } : {
+                onChunk: (delta: string) => {
+                    partialResponse += delta;
+                    onUpdate(index, r => ({ ...r, response: r.response + delta }));
+                },
+            }),
+        }), {
+            maxRetries: executionSettings.maxRetries,
+            baseDelayMs: executionSettings.baseDelaySec * 1000,
+            signal: callController.signal,
+            onRetry: () => {
+                partialResponse = '';
+                onUpdate(index, r => ({ ...r, response: '' }));
+            },
+        });
+
+        if (structuredOutput) {
+            const structured = parseStructuredResponse(responseText);
+            return { provider: call.provider, model: call.model, response: formatStructuredResponse(structured), structured, status: 'done', usage, latency_ms: elapsedMs(), memory, images, sent_prompt };
+        }
+        return { provider: call.provider, model: call.model, response: formatAIResponse(responseText), status: 'done', usage, latency_ms: elapsedMs(), memory, images, sent_prompt };
+
+    } catch (e: any) {
+        if (callController.signal.aborted) {
+            // Keep whatever streamed in before the abort; the status says why it stopped.
+            return { provider: call.provider, model: call.model, response: formatAIResponse(partialResponse), status: timedOut ? 'timed_out' : 'cancelled', latency_ms: elapsedMs(), memory, images, sent_prompt };
+        }
+        console.error(`Execution failed for ${call.provider}/${call.model}:`, e);
+        const detailedError = e.response ? await e.response.text() : e.message;
+        return {
+            provider: call.provider,
+            model: call.model,
+            response: `Error: ${detailedError || 'Failed to get response.'}`,
+            status: 'failed',
+            latency_ms: elapsedMs(),
+            memory,
+            images,
+            sent_prompt,
+        };
+    } finally {
+        clearTimeout(timer);
+        roundSignal.removeEventListener('abort', onRoundCancel);
+    }
+  };
+
+  /**
+   * Runs the latest round's calls. `rounds` and `consensusThreshold` default to the rendered state;
+   * autopilot passes its own. Resolves to the updated history, or null if the round was cancelled or failed.
+   */
+  const handleExecuteRound = async (rounds: RoundHistory[] = history, consensusThreshold: number = executionSettings.consensusThreshold): Promise<RoundHistory[] | null> => {
+    if (wouldExceedBudget(rounds, 'execute')) { setError(t.budgetExceeded); return null; }
+    setLoadingAction('execute');
+    setIsEditingPlan(false);
+    setError(null);
+
+    const latestRound = rounds[rounds.length - 1];
+    if (!latestRound) {
+        setError("No round to execute.");
+        setLoadingAction(null);
+        return null;
+    }
+
+    const missingKeyCall = latestRound.plan.calls.find(call => !hasApiKey(call.provider));
+    if (missingKeyCall) {
+        setError(`API Key for ${missingKeyCall.provider} is missing.`);
+        setLoadingAction(null);
+        return null;
+    }
+
+    // Cards render from execution_results, so seed one placeholder per call.
+    setHistory(prevHistory => prevHistory.map((h, i) => i !== prevHistory.length - 1 ? h : {
+        ...h,
+        execution_mode: executionMode,
+        execution_results: latestRound.plan.calls.map(call => ({
+            provider: call.provider, model: call.model, response: '',
+            status: executionMode === 'sequential' ? 'queued' : 'streaming',
+        })),
+    }));
+
+    const roundController = new AbortController();
+    roundAbortRef.current = roundController;
+
+    try {
+        const results: ExecutionResult[] = [];
+        if (executionMode === 'sequential') {
+            // One at a time, in plan order; each participant sees what was said before it.
+            const earlier: { call: Call; result: ExecutionResult; index: number }[] = [];
+            for (const [index, call] of latestRound.plan.calls.entries()) {
+                if (roundController.signal.aborted) {
+                    results[index] = { provider: call.provider, model: call.model, response: '', status: 'cancelled' };
+                    updateResult(index, () => results[index]);
+                    continue;
+                }
+                updateResult(index, r => ({ ...r, status: 'streaming' }));
+                const result = await executeCall(call, index, rounds, roundController.signal, buildRebuttalPrompt(call, earlier, protocol.anonymous));
+                results[index] = { ...result, replying_to: earlier.map(e => e.index) };
+                updateResult(index, () => results[index]);
+                if (isUsableResult(result)) earlier.push({ call, result, index });
+            }
+        } else {
+            // Each card settles on its own; the round is done once the slowest call settles.
+            const executionPromises = latestRound.plan.calls.map((call, index) =>
+                executeCall(call, index, rounds, roundController.signal).then(result => {
+                    results[index] = result;
+                    updateResult(index, () => result);
+                }));
+            await Promise.all(executionPromises);
+        }
+
+        if (roundController.signal.aborted) return null;
+        const executedRound: RoundHistory = { ...latestRound, execution_mode: executionMode, execution_results: results };
+        const measured = await measureConsensus(results.filter(isUsableResult));
+        const reachedThreshold = !!measured && consensusThreshold > 0 && measured.consensus.agreement * 100 >= consensusThreshold;
+        if (measured) {
+            executedRound.consensus = measured.consensus;
+            executedRound.coordinator_calls = [...(latestRound.coordinator_calls || []), measured.metrics];
+            if (reachedThreshold) executedRound.auto_stop_threshold = consensusThreshold;
+        }
+        const executedHistory = [...rounds.slice(0, -1), executedRound];
+        setHistory(executedHistory);
+        if (reachedThreshold) await handleStopDiscussion(executedHistory);
+        return executedHistory;
+    } catch (e) {
+        console.error(e);
+        setError(t.errorOccurred);
+        return null;
+    } finally {
+        roundAbortRef.current = null;
+        setLoadingAction(null);
+    }
+  };
+
+  /**
+   * Has the coordinator extract each participant's position on the round's key questions,
+   * then scores agreement locally. Returns null when there is nothing to compare or extraction fails.
+   */
+  const measureConsensus = async (results: ExecutionResult[]): Promise<{ consensus: ConsensusScore; metrics: CallMetrics } | null> => {
+    if (results.length < 2) return null;
+    const coordinator = getCoordinator();
+    if (!coordinator) return null;
+
+    const systemInstruction = `You are an impartial analyst of a multi-LLM discussion. Identify the 2 to 5 key questions the participants' responses address. For each question, record every participant's position on it as a short label of a few words. Participants who hold the same position MUST get exactly the same label; leave out participants who did not address the question. Do not judge who is right. Write all labels and questions in ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}. Respond ONLY with a JSON object adhering to the provided schema.`;
+    let userPrompt = `Topic: "${topic}"\n\nResponses:\n`;
+    results.forEach(res => {
+        userPrompt += `[${res.provider}/${res.model} RESPONSE]:\n${res.response}\n\n`;
+    });
+
+    try {
+        const { data, metrics } = await runCoordinator<{ key_questions: KeyQuestion[] }>(coordinator, systemInstruction, userPrompt, CONSENSUS_OUTPUT);
+        return { consensus: scoreConsensus(data.key_questions || []), metrics };
+    } catch (e) {
+        // The round itself succeeded; a missing meter isn't worth an error banner.
+        console.error('Consensus scoring failed:', e);
+        return null;
+    }
+  };
+
+  /**
+   * Measures the latest round again once `results` replaced its results, so the meter and autopilot never
+   * go by answers that are no longer shown. The old score is cleared at once; a score that comes back
+   * after the results changed again is dropped.
+   */
+  const remeasureConsensus = async (results: ExecutionResult[]) => {
+    setLoadingAction('consensus');
+    setHistory(prevHistory => prevHistory.map((h, i) => i !== prevHistory.length - 1 ? h : { ...h, consensus: undefined }));
+    const measured = await measureConsensus(results.filter(isUsableResult));
+    if (!measured) return;
+    setHistory(prevHistory => prevHistory.map((h, i) => {
+        if (i !== prevHistory.length - 1) return h;
+        const coordinator_calls = [...(h.coordinator_calls || []), measured.metrics];
+        const isCurrent = h.execution_results?.every((r, j) => r.response === results[j]?.response);
+        return isCurrent ? { ...h, consensus: measured.consensus, coordinator_calls } : { ...h, coordinator_calls };
+    }));
+  };
+
+  /**
+   * Points call `index` of the latest round at the model whose result it now shows, so the plan card,
+   * rebuttal prompts and later memory all name the model that actually answered.
+   */
+  const assignCall = (index: number, { provider, model }: ModelRef) => {
+    setHistory(prevHistory => prevHistory.map((h, i) => {
+        const call = h.plan.calls[index];
+        if (i !== prevHistory.length - 1 || !call || (call.provider === provider && call.model === model)) return h;
+        return {
+            ...h,
+            original_plan: h.original_plan || h.plan,
+            plan: { ...h.plan, calls: h.plan.calls.map((c, j) => j === index ? { ...c, provider, model } : c) },
+        };
+    }));
+  };
+
+  /**
+   * Re-runs one call of the latest round, on its own model ("regenerate") or on another selected one
+   * ("reassign"). The result it replaces is kept as an alternate.
+   */
+  const handleRerunCall = async (index: number, target?: ModelRef) => {
+    const latestRound = history[history.length - 1];
+    const previous = latestRound?.execution_results?.[index];
+    if (!latestRound || !previous) return;
+    if (isExecuteOverBudget) { setError(t.budgetExceeded); return; }
+    const call = { ...latestRound.plan.calls[index], ...target };
+    if (!hasApiKey(call.provider)) { setError(`API Key for ${call.provider} is missing.`); return; }
+    setLoadingAction('execute');
+    setError(null);
+    const controller = new AbortController();
+    roundAbortRef.current = controller;
+
+    const { alternates = [], ...previousAttempt } = previous;
+    updateResult(index, () => ({ provider: call.provider, model: call.model, response: '', status: 'streaming', alternates: [...alternates, previousAttempt] }));
+    assignCall(index, call);
+    // A sequential turn gets the same earlier responses it was shown the first time.
+    const earlier = (previous.replying_to || []).map(i => ({ call: latestRound.plan.calls[i], result: latestRound.execution_results![i] }));
+    const prompt = latestRound.execution_mode === 'sequential' ? buildRebuttalPrompt(call, earlier, protocol.anonymous) : call.prompt;
+    try {
+        const result = await executeCall(call, index, history, controller.signal, prompt);
+        updateResult(index, r => ({ ...result, replying_to: previous.replying_to, alternates: r.alternates }));
+        await remeasureConsensus(latestRound.execution_results!.map((r, i) => i === index ? result : r));
+    } finally {
+        roundAbortRef.current = null;
+        setLoadingAction(null);
+    }
+  };
+
+  /**
+   * Makes alternate `altIndex` the result the coordinator sees; the current one becomes an alternate.
+   * Agreement is measured again, which is a paid coordinator call.
+   */
+  const chooseAlternate = async (index: number, altIndex: number) => {
+    const results = history[history.length - 1]?.execution_results;
+    const chosen = results?.[index]?.alternates?.[altIndex];
+    if (!results || !chosen) return;
+    if (isExecuteOverBudget) { setError(t.budgetExceeded); return; }
+    setError(null);
+    updateResult(index, ({ alternates = [], ...current }) => ({
+      ...alternates[altIndex],
+      alternates: [...alternates.filter((_, i) => i !== altIndex), current],
+    }));
+    assignCall(index, chosen);
+    try {
+        await remeasureConsensus(results.map((r, i) => i === index ? chosen : r));
+    } finally {
+        setLoadingAction(null);
+    }
+  };
+
+  /**
+   * Sends the topic as written to every selected model at once; nothing is planned and nobody sees the others.
+   * Each model gets the uploaded documents and fetched pages that fit its context window, and `executeCall`
+   * adds the images, so the answers start from what the discussion would see.
+   */
+  const handleCompareModels = async () => {
+    const models = flatSelectedModels.filter(({ provider }) => provider !== HUMAN_PROVIDER);
+    const missingKeyModel = models.find(({ provider }) => !hasApiKey(provider));
+    if (missingKeyModel) { setError(`API Key for ${missingKeyModel.provider} is missing.`); return; }
+    setLoadingAction('compare');
+    setError(null);
+
+    const prompt = isCodeMode
+      ? `Code to analyze:\n\`\`\`\n${codeInput}\n\`\`\`\n\n${errorDescription ? `Issue description: ${errorDescription}\n\n` : ''}Review this code and explain any problems you find.`
+      : topic;
+    const calls: Call[] = models.map(({ provider, model }) => ({
+      provider, model, role: modelRoles[provider]?.[model] || COMPARISON_ROLE, prompt, timeout_sec: 0,
+    }));
+    setComparison({ calls, results: calls.map(call => ({ provider: call.provider, model: call.model, response: '', status: 'streaming' })) });
+    const updateComparison = (index: number, update: (result: ExecutionResult) => ExecutionResult) => {
+      setComparison(prev => prev && { ...prev, results: prev.results.map((r, j) => j === index ? update(r) : r) });
+    };
+
+    const controller = new AbortController();
+    roundAbortRef.current = controller;
+    try {
+        await Promise.all(calls.map((call, index) => {
+            const { documentsText } = buildContext({
+                contextWindow: getContextWindow(call.provider, call.model),
+                fixedText: prompt,
+                documents: getSourceDocuments(uploadedFiles, urls),
+                rounds: [],
+                query: prompt,
+            });
+            return executeCall(call, index, [], controller.signal, `${documentsText}${describeUrls(urls)}${prompt}`, updateComparison)
+                .then(result => updateComparison(index, () => result));
+        }));
+    } finally {
+        roundAbortRef.current = null;
+        setLoadingAction(null);
+    }
+  };
+
+  /** Turns the comparison into an executed round 1, so the coordinator plans round 2 from the answers. */
+  const handlePromoteComparison = () => {
+    if (!comparison) return;
+    setHistory([{
+      round: 1,
+      summary: t.comparisonRoundSummary,
+      plan: { calls: comparison.calls, stop_condition: 'continue' },
+      execution_results: comparison.results,
+      execution_mode: 'parallel',
+    }]);
+    setIsFinished(false);
+    setComparison(null);
+    setAppStep('DISCUSSION');
+  };
+
+  const handleCancelRound = () => {
+    roundAbortRef.current?.abort();
+  };
+
+  /** Applies a hand edit to the not-yet-executed latest plan, keeping the coordinator's version on the first edit. */
+  const editLatestPlan = (update: (calls: Call[]) => Call[]) => {
+    setHistory(prevHistory => prevHistory.map((h, i) => i !== prevHistory.length - 1 || h.execution_results ? h : {
+      ...h,
+      original_plan: h.original_plan || h.plan,
+      plan: { ...h.plan, calls: update(h.plan.calls) },
+    }));
+  };
+
+  /** Moves a call of the latest plan, which also sets its turn in a sequential round. */
+  const moveCall = (callIndex: number, offset: -1 | 1) => {
+    editLatestPlan(calls => {
+      const target = callIndex + offset;
+      if (target < 0 || target >= calls.length) return calls;
+      const moved = [...calls];
+      [moved[callIndex], moved[target]] = [moved[target], moved[callIndex]];
+      return moved;
+    });
+  };
+
+  const updateCall = (callIndex: number, field: 'role' | 'prompt', value: string) => {
+    editLatestPlan(calls => calls.map((call, i) => i === callIndex ? { ...call, [field]: value } : call));
+  };
+
+  const removeCall = (callIndex: number) => {
+    editLatestPlan(calls => calls.filter((_, i) => i !== callIndex));
+  };
+
+  const addCall = (key: string) => {
+    const participant = flatSelectedModels.find(({ provider, model }) => `${provider}/${model}` === key);
+    if (!participant) return;
+    const { provider, model } = participant;
+    editLatestPlan(calls => [...calls, { provider, model, role: modelRoles[provider]?.[model] || '', prompt: '', timeout_sec: DEFAULT_CALL_TIMEOUT_SEC }]);
+  };
+
+  /**
+   * `rounds` defaults to the rendered history; auto-stop and autopilot pass the just-executed one, which state
+   * doesn't hold yet. `stopCondition` overrides the coordinator's when the app itself ended the discussion.
+   */
+  const handleStopDiscussion = async (rounds: RoundHistory[] = history, stopCondition?: RoundPlan['stop_condition']) => {
+    setLoadingAction('stop'); setError(null);
+    const coordinator = getCoordinator();
+    if (!coordinator) { setLoadingAction(null); return; }
+
+    const systemInstruction = `You are a world-class "Coordinator" for a multi-LLM discussion. The user has requested to STOP the discussion. Your task is to analyze the entire discussion history and generate a definitive final report. You MUST populate the "final_if_stopped" field and set "stop_condition" to "consensus_formed".${hasStructuredResults(rounds) ? CLAIMS_INSTRUCTION : ''} 
+
+CRITICAL LANGUAGE REQUIREMENT: Regardless of what language the user's topic or previous responses were in, you MUST respond ONLY in ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}. Do not match the input language - always use ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'} for ALL text fields in your JSON response.
+
+${COORDINATOR_FORMATTING}
+
+Respond ONLY with a JSON object adhering to the provided schema.${CITATION_INSTRUCTION}${toneInstruction}${protocolReport}`;
+
+    const request = stopCondition === 'round_limit_reached'
+        ? `\nThe discussion has reached its round limit and the user has decided to stop the discussion. Please analyze all the information above and generate the final report.`
+        : `\nThe user has decided to stop the discussion. Please analyze all the information above and generate the final report.`;
+    const participantsText = describeParticipants();
+    // The report covers the whole discussion, so documents are ranked against all of its summaries.
+    const context = buildCoordinatorContext(
+        systemInstruction + topic + describeUrls(urls) + describeImageUploads(uploadedFiles) + participantsText + request,
+        rounds,
+        [topic, ...rounds.map(h => h.summary)].join('\n'),
+    );
+    const userPrompt = `Topic: "${topic}"\n\n${context.documentsText}${describeUrls(urls)}${describeImageUploads(uploadedFiles)}${participantsText}\nDiscussion History:\n${context.historyText}${request}`;
+
+    try {
+        const { data: parsed, metrics } = await runCoordinator<CoordinatorResponse>(coordinator, systemInstruction, userPrompt, COORDINATOR_OUTPUT, true);
+        
+        const cleanedFinalReport = parsed.final_if_stopped ? cleanFinalReport(parsed.final_if_stopped, rounds) : undefined;
+
+        setHistory(prevHistory => prevHistory.map((h, i) => i !== prevHistory.length - 1 ? h : {
+            ...h,
+            final_report: cleanedFinalReport,
+            coordinator_calls: [...(h.coordinator_calls || []), metrics],
+            plan: { ...h.plan, stop_condition: stopCondition || parsed.round_plan.stop_condition || 'consensus_formed' },
+            final_context_report: context.report,
+        }));
+
+        setIsFinished(true);
     } catch (e) {
       console.error(e); setError(t.errorOccurred);
     } finally {
@@ -652,228 +1912,170 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
     }
   };
 
-  const handleExecuteRound = async () => {
-    setLoadingAction('execute');
-    setError(null);
-
-    const latestRound = history[history.length - 1];
-    if (!latestRound) {
-        setError("No round to execute.");
-        setLoadingAction(null);
-        return;
-    }
-
-    const executeCall = async (call: Call): Promise<ExecutionResult> => {
-        const apiKey = apiKeys[call.provider];
-        if (!apiKey) {
-            throw new Error(`API Key for ${call.provider} is missing.`);
-        }
-
-        try {
-            let responseText: string;
-            const systemInstruction = `Your role is: ${call.role}.
-Your entire response MUST be in plain text.
-ABSOLUTELY DO NOT use any Markdown formatting. This means no **bold text**, no *italic text*, no lists using - or *, and no # headers.
-The response language must be ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}.`;
-
-            switch (call.provider) {
-                case 'Google':
-                    const ai = new GoogleGenAI({ apiKey });
-                    const response = await ai.models.generateContent({
-                        model: call.model,
-                        contents: call.prompt,
-                        config: { systemInstruction }
-                    });
-                    responseText = response.text;
-                    break;
-                
-                case 'Anthropic':
-                    const anthropicRes = await fetch('https://api.anthropic.com/v1/messages', {
-                        method: 'POST',
-                        headers: {
-                            'x-api-key': apiKey,
-                            'anthropic-version': '2023-06-01',
-                            'content-type': 'application/json'
-                        },
-                        body: JSON.stringify({
-                            model: call.model,
-                            system: systemInstruction,
-                            messages: [{ role: 'user', content: call.prompt }],
-                            max_tokens: 4096,
-                        })
-                    });
-                     if (!anthropicRes.ok) {
-                        const errorBody = await anthropicRes.text();
-                        throw new Error(`Anthropic API error: ${anthropicRes.status} ${anthropicRes.statusText} - ${errorBody}`);
-                    }
-                    const anthropicData = await anthropicRes.json();
-                    responseText = anthropicData.content?.[0]?.text || '';
-                    break;
-
-                case 'OpenAI':
-                case 'Groq':
-                case 'Mistral':
-                case 'DeepSeek':
-                case 'OpenEvidence':
-                    const endpoints: Record<string, string> = {
-                        OpenAI: 'https://api.openai.com/v1/chat/completions',
-                        Groq: 'https://api.groq.com/openai/v1/chat/completions',
-                        Mistral: 'https://api.mistral.ai/v1/chat/completions',
-                        DeepSeek: 'https://api.deepseek.com/chat/completions',
-                        OpenEvidence: 'https://api.openevidence.com/v1/chat/completions',
-                    };
-                    const openAIRes = await fetch(endpoints[call.provider], {
-                        method: 'POST',
-                        headers: {
-                            'Authorization': `Bearer ${apiKey}`,
-                            'Content-Type': 'application/json'
-                        },
-                        body: JSON.stringify({
-                            model: call.model,
-                            messages: [
-                                { role: 'system', content: systemInstruction },
-                                { role: 'user', content: call.prompt }
-                            ]
-                        })
-                    });
-                     if (!openAIRes.ok) {
-                        const errorBody = await openAIRes.text();
-                        throw new Error(`${call.provider} API error: ${openAIRes.status} ${openAIRes.statusText} - ${errorBody}`);
-                    }
-                    const openAIData = await openAIRes.json();
-                    responseText = openAIData.choices?.[0]?.message?.content || '';
-                    break;
-
-                default:
-                    throw new Error(`Unsupported provider: ${call.provider}`);
+  // Autopilot stops on its own agreement threshold, falling back to the execution settings' one.
+  const autopilotThreshold = autopilotSettings.consensusThreshold || executionSettings.consensusThreshold;
+
+  /**
+   * Loops plan → execute until a limit is hit, then writes the final report. Every step is one of the
+   * manual handlers, fed the history the previous step returned since state won't have caught up yet.
+   */
+  const handleStartAutopilot = async () => {
+    autopilotInterruptRef.current = false;
+    setIsAutopilotRunning(true);
+    setAutopilotStatus(null);
+    const { maxRounds, budgetUsd } = autopilotSettings;
+    // Autopilot stops before a step that would go past its own budget or the spending cap, and writes the report.
+    const budgetStop = (rounds: RoundHistory[], step: 'plan' | 'execute'): string | null =>
+        wouldExceedBudget(rounds, step, budgetUsd) ? t.autopilotStatus.budget(formatCost(budgetUsd))
+        : wouldExceedBudget(rounds, step) ? t.autopilotStatus.budgetCap(formatCost(executionSettings.budgetCapUsd))
+        : null;
+
+    let rounds: RoundHistory[] | null = history;
+    try {
+        while (!autopilotInterruptRef.current) {
+            const latestRound = rounds[rounds.length - 1];
+            if (latestRound && !latestRound.execution_results) {
+                const stop = budgetStop(rounds, 'execute');
+                if (stop) {
+                    setAutopilotStatus(stop);
+                    await handleStopDiscussion(rounds);
+                    return;
+                }
+                rounds = await handleExecuteRound(rounds, autopilotThreshold);
+                if (!rounds) {
+                    setAutopilotStatus(autopilotInterruptRef.current ? t.autopilotStatus.interrupted : t.autopilotStatus.executionFailed);
+                    return;
+                }
+                const executedRound = rounds[rounds.length - 1];
+                if (executedRound.auto_stop_threshold !== undefined) {
+                    setAutopilotStatus(t.autopilotStatus.consensus(formatAgreement(executedRound.consensus!.agreement)));
+                    return;
+                }
+                if (executedRound.execution_results!.some(r => !isUsableResult(r))) {
+                    setAutopilotStatus(t.autopilotStatus.callFailed);
+                    return;
+                }
+                continue;
             }
 
-            return { provider: call.provider, model: call.model, response: formatAIResponse(responseText) };
-
-        } catch (e: any) {
-            console.error(`Execution failed for ${call.provider}/${call.model}:`, e);
-            const detailedError = e.response ? await e.response.text() : e.message;
-            return {
-                provider: call.provider,
-                model: call.model,
-                response: `Error: ${detailedError || 'Failed to get response.'}`
-            };
+            const executedRounds = rounds.filter(h => h.execution_results).length;
+            if (executedRounds >= maxRounds) {
+                setAutopilotStatus(t.autopilotStatus.roundLimit(maxRounds));
+                await handleStopDiscussion(rounds, 'round_limit_reached');
+                return;
+            }
+            const stop = budgetStop(rounds, 'plan');
+            if (stop) {
+                setAutopilotStatus(stop);
+                await handleStopDiscussion(rounds);
+                return;
+            }
+            rounds = await handleProcessRound(undefined, rounds);
+            if (!rounds) {
+                setAutopilotStatus(t.autopilotStatus.planningFailed);
+                return;
+            }
+            if (rounds[rounds.length - 1].plan.stop_condition !== 'continue') {
+                setAutopilotStatus(t.autopilotStatus.coordinatorStopped);
+                return;
+            }
         }
-    };
-    
-    try {
-        const executionPromises = latestRound.plan.calls.map(executeCall);
-        const results = await Promise.all(executionPromises);
-        setHistory(prevHistory => {
-            const newHistory = [...prevHistory];
-            newHistory[newHistory.length - 1].execution_results = results;
-            return newHistory;
-        });
-    } catch (e) {
-        console.error(e);
-        setError(t.errorOccurred);
+        setAutopilotStatus(t.autopilotStatus.interrupted);
     } finally {
-        setLoadingAction(null);
+        setIsAutopilotRunning(false);
     }
   };
 
-  const handleStopDiscussion = async () => {
-    setLoadingAction('stop'); setError(null);
-    const ai = getGoogleAI();
-    if (!ai) { setLoadingAction(null); return; }
-
-    const systemInstruction = `You are a world-class "Coordinator" for a multi-LLM discussion. The user has requested to STOP the discussion. Your task is to analyze the entire discussion history and generate a definitive final report. You MUST populate the "final_if_stopped" field and set "stop_condition" to "consensus_formed". 
+  /** Stops autopilot after the current step; a round in flight is cancelled like "Cancel Round". */
+  const handleInterruptAutopilot = () => {
+    autopilotInterruptRef.current = true;
+    roundAbortRef.current?.abort();
+  };
 
-CRITICAL LANGUAGE REQUIREMENT: Regardless of what language the user's topic or previous responses were in, you MUST respond ONLY in ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'}. Do not match the input language - always use ${language === 'zh' ? 'Traditional Chinese (繁體中文)' : 'English'} for ALL text fields in your JSON response.
+  // --- Branches ---
+  /** All branches, with the active one brought up to date from the live discussion state. */
+  const currentBranches = (): DiscussionBranch[] => {
+    const live = { history, isFinished, selectedModels, modelRoles };
+    if (branches.length === 0) return [{ id: MAIN_BRANCH_ID, name: t.mainBranch, ...live }];
+    return branches.map(b => b.id === activeBranchId ? { ...b, ...live } : b);
+  };
 
-FORMATTING REQUIREMENT: For better readability, you may use:
-- Numbers for lists (1. 2. 3.)
-- Capital letters for emphasis instead of **bold**
-- Line breaks to separate sections
-- Simple text formatting like "SECTION:" for headers
-Do NOT use Markdown syntax like **, *, #, etc.
+  const loadBranch = (branch: DiscussionBranch) => {
+    setActiveBranchId(branch.id);
+    setHistory(branch.history);
+    setIsFinished(branch.isFinished);
+    setSelectedModels(branch.selectedModels);
+    setModelRoles(branch.modelRoles);
+    setIsEditingPlan(false);
+    setIsAskingFollowUp(false);
+    setAutopilotStatus(null);
+    if (compareBranchId === branch.id) setCompareBranchId(null);
+  };
 
-Respond ONLY with a JSON object adhering to the provided schema.`;
+  const switchBranch = (id: string) => {
+    const all = currentBranches();
+    const target = all.find(b => b.id === id);
+    if (!target || id === activeBranchId) return;
+    setBranches(all);
+    loadBranch(target);
+  };
 
-    let userPrompt = `Topic: "${topic}"\n\n`;
-    
-    if (uploadedFiles.length > 0) {
-      userPrompt += `Uploaded Files:\n`;
-      try {
-        for (const file of uploadedFiles) {
-          const content = await readFileContent(file);
-          userPrompt += `\n--- File: ${file.name} ---\n${content}\n`;
-        }
-      } catch (error) {
-        console.error('Error reading file:', error);
-      }
-      userPrompt += `\n`;
-    }
-    
-    if (urls.length > 0) {
-      userPrompt += `URLs to analyze:\n`;
-      urls.forEach(url => {
-        userPrompt += `- ${url}\n`;
-      });
-      userPrompt += `\n`;
+  /**
+   * Forks the active branch at `branchDraft.round`. "replan" reopens that round's plan for editing;
+   * the other modes keep it and continue past it, with a follow-up question or a new participant set.
+   */
+  const handleCreateBranch = async () => {
+    if (!branchDraft) return;
+    const { round, mode, question } = branchDraft;
+    const all = currentBranches();
+    // Copies, so nothing done on the fork can reach the parent branch's rounds.
+    const shared = history.slice(0, round).map(h => ({ ...h, plan: { ...h.plan, calls: [...h.plan.calls] } }));
+    const last = shared[shared.length - 1];
+    let rounds: RoundHistory[];
+    if (mode === 'replan') {
+      const { execution_results, execution_mode, consensus, auto_stop_threshold, final_report, ...planOnly } = last;
+      rounds = [...shared.slice(0, -1), { ...planOnly, plan: { ...planOnly.plan, stop_condition: 'continue' } }];
+    } else {
+      rounds = shared;
     }
-    
-    userPrompt += `Participants and their detailed roles:\n`;
-    flatSelectedModels.forEach(({ provider, model }) => {
-        const key = `${provider}/${model}`;
-        const initialRole = modelRoles[provider]?.[model] || '';
-        const clarification = clarifiedRoles[key];
-        userPrompt += `- ${key} (Role: ${initialRole})\n`;
-        if (clarification) {
-            userPrompt += `  Tasks: ${clarification.clarified_tasks}\n  Thinking Style: ${clarification.thinking_style}\n`;
-        }
-    });
+    const branch: DiscussionBranch = {
+      id: Date.now().toString(),
+      name: t.branchName(all.length + 1, round),
+      parentId: activeBranchId,
+      forkedAtRound: round,
+      history: rounds,
+      isFinished: false,
+      selectedModels: mode === 'participants' ? branchDraft.selectedModels : selectedModels,
+      modelRoles: mode === 'participants' ? branchDraft.modelRoles : modelRoles,
+    };
+    setBranches([...all, branch]);
+    loadBranch(branch);
+    setBranchDraft(null);
+    if (mode === 'replan') setIsEditingPlan(true);
+    if (mode === 'followup' && question.trim()) await handleProcessRound(question.trim(), rounds);
+  };
 
-    userPrompt += "\nDiscussion History:\n";
-    history.forEach(h => {
-        userPrompt += `--- Round ${h.round} Summary ---\n${h.summary}\n`;
-        if (h.execution_results) {
-            userPrompt += `\n--- Round ${h.round} Execution Results ---\n`;
-            h.execution_results.forEach(res => {
-                userPrompt += `[${res.provider}/${res.model} RESPONSE]:\n${res.response}\n\n`;
-            });
-        }
+  const toggleDraftParticipant = (provider: string, model: string, isChecked: boolean) => {
+    setBranchDraft(draft => {
+      if (!draft) return draft;
+      const models = draft.selectedModels[provider] || [];
+      const nextModels = isChecked ? [...models, model] : models.filter(m => m !== model);
+      const { [provider]: _, ...others } = draft.selectedModels;
+      return { ...draft, selectedModels: nextModels.length > 0 ? { ...others, [provider]: nextModels } : others };
     });
-    userPrompt += `\nThe user has decided to stop the discussion. Please analyze all the information above and generate the final report.`;
+  };
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash', contents: userPrompt,
-            config: { systemInstruction, responseMimeType: 'application/json', responseSchema: coordinatorSchema }
-        });
-        const parsed: CoordinatorResponse = JSON.parse(response.text.trim());
-        
-        const cleanedFinalReport = parsed.final_if_stopped ? {
-          ...parsed.final_if_stopped,
-          consensus: formatAIResponse(parsed.final_if_stopped.consensus),
-          bullet_summary: parsed.final_if_stopped.bullet_summary.map(formatAIResponse),
-          doc_body_blocks: parsed.final_if_stopped.doc_body_blocks.map(block => ({
-              heading: formatAIResponse(block.heading),
-              content: formatAIResponse(block.content),
-          })),
-        } : undefined;
-
-        setHistory(prevHistory => {
-            const newHistory = [...prevHistory];
-            const lastItem = newHistory[newHistory.length - 1];
-            if (lastItem) {
-                lastItem.final_report = cleanedFinalReport;
-                lastItem.plan.stop_condition = parsed.round_plan.stop_condition || 'consensus_formed';
-            }
-            return newHistory;
-        });
+  const setDraftRole = (provider: string, model: string, role: string) => {
+    setBranchDraft(draft => draft && {
+      ...draft, modelRoles: { ...draft.modelRoles, [provider]: { ...draft.modelRoles[provider], [model]: role } },
+    });
+  };
 
-        setIsFinished(true);
-    } catch (e) {
-      console.error(e); setError(t.errorOccurred);
-    } finally {
-      setLoadingAction(null);
-    }
+  /** Branches in tree order, each with its depth below the main branch. */
+  const orderBranches = (all: DiscussionBranch[]): { branch: DiscussionBranch; depth: number }[] => {
+    const visit = (parentId: string | undefined, depth: number): { branch: DiscussionBranch; depth: number }[] =>
+      all.filter(b => b.parentId === parentId).flatMap(branch => [{ branch, depth }, ...visit(branch.id, depth + 1)]);
+    return visit(undefined, 0);
   };
 
   const handleContinueWithFollowUp = () => {
@@ -899,7 +2101,11 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
       history,
       isFinished,
       isCodeMode,
-      language
+      language,
+      clarificationMetrics: clarificationMetrics || undefined,
+      discussionStyle,
+      discussionProtocol,
+      ...(branches.length > 0 && { branches: currentBranches(), activeBranchId }),
     };
     
     setSavedDiscussions(prev => [newDiscussion, ...prev.slice(0, 19)]); // 保留最新20個討論
@@ -914,9 +2120,16 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
     setModelRoles(discussion.modelRoles);
     setClarifiedRoles(discussion.clarifiedRoles);
     setHistory(discussion.history);
+    setAutopilotStatus(null);
     setIsFinished(discussion.isFinished);
     setIsCodeMode(discussion.isCodeMode);
     setLanguage(discussion.language);
+    setClarificationMetrics(discussion.clarificationMetrics || null);
+    setDiscussionStyle(discussion.discussionStyle || "Professional");
+    setDiscussionProtocol(discussion.discussionProtocol || 'open');
+    setBranches(discussion.branches || []);
+    setActiveBranchId(discussion.activeBranchId || MAIN_BRANCH_ID);
+    setBranchDraft(null); setCompareBranchId(null);
     setAppStep('DISCUSSION');
     setShowHistoryModal(false);
   };
@@ -932,16 +2145,48 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
       setIsAskingFollowUp(false); setFollowUpQuestion("");
       setUploadedFiles([]); setUrls([]); setNewUrl("");
       setIsCodeMode(false); setCodeInput(""); setErrorDescription("");
-      setSelectedTemplate(null); setDiscussionStyle("Professional");
-      setIsDiscussionSaved(false);
+      setSelectedTemplate(null); setDiscussionStyle("Professional"); setDiscussionProtocol('open');
+      setIsDiscussionSaved(false); setClarificationMetrics(null); setAutopilotStatus(null);
+      setBranches([]); setActiveBranchId(MAIN_BRANCH_ID); setBranchDraft(null); setCompareBranchId(null);
+      setComparison(null);
   };
 
-  const generateContent = () => {
-    let content = `${t.title}\n====================\n\n`;
-    content += `Topic: ${topic}\n\n`;
+  /**
+   * A final report as Markdown, with its headings at `level`. The executive summary keeps the
+   * consensus and key points, and numbers only the sources those cite.
+   */
+  const formatReportMarkdown = (report: FinalReportData, level: number, scope: ExportScope) => {
+    const heading = '#'.repeat(level);
+    const footnotes = scope === 'summary' ? createFootnotes(report.bullet_sources || []) : getReportFootnotes(report);
+    let content = `${heading} ${t.consensus}\n\n${nestMarkdown(report.consensus, level)}\n\n`;
+    content += `${heading} ${t.keyPoints}\n\n`;
+    report.bullet_summary.forEach((p, i) => content += `- ${p}${formatFootnoteMarks(footnotes.numbersFor(report.bullet_sources?.[i]))}\n`);
+    if (scope !== 'summary') {
+        content += `\n${heading} ${t.documentOutline}\n\n`;
+        report.doc_outline.forEach((entry, i) => content += `${i + 1}. ${entry}\n`);
+        report.doc_body_blocks.forEach(b => {
+            content += `\n${heading} ${b.heading}${formatFootnoteMarks(footnotes.numbersFor(b.sources))}\n\n${nestMarkdown(b.content, level)}\n`;
+        });
+    }
+    if (footnotes.notes.length > 0) {
+        content += `\n${heading} ${t.sources}\n\n`;
+        footnotes.notes.forEach((source, i) => content += `${i + 1}. ${t.citationSource(source.round, `${source.provider}/${source.model}`)}\n`);
+    }
+    return content;
+  };
+
+  /** The discussion as Markdown, so responses keep their lists, tables and code blocks in exports. */
+  const generateContent = (scope: ExportScope, finalReport: FinalReportData) => {
+    if (scope !== 'transcript') {
+        const title = scope === 'summary' ? t.executiveSummary : t.finalReport;
+        return `# ${title}\n\n**Topic:** ${topic}\n\n${formatReportMarkdown(finalReport, 2, scope)}`;
+    }
+
+    let content = `# ${t.title}\n\n`;
+    content += `**Topic:** ${topic}\n\n`;
     
     if (uploadedFiles.length > 0) {
-      content += `--- UPLOADED FILES ---\n`;
+      content += `## Uploaded Files\n\n`;
       uploadedFiles.forEach(file => {
         content += `- ${file.name}\n`;
       });
@@ -949,85 +2194,56 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
     }
     
     if (urls.length > 0) {
-      content += `--- URLS ---\n`;
-      urls.forEach(url => {
-        content += `- ${url}\n`;
+      content += `## URLs\n\n`;
+      urls.forEach(({ url, page }) => {
+        content += `- ${url}${page ? ` (${page.title})` : ''}\n`;
       });
       content += `\n`;
     }
     
-    content += `--- PARTICIPANTS ---\n`;
+    content += `## Participants\n`;
      flatSelectedModels.forEach(({ provider, model }) => {
         const key = `${provider}/${model}`;
         const initialRole = modelRoles[provider]?.[model] || 'N/A';
         const clarification = clarifiedRoles[key];
-        content += `\nModel: ${key}\nRole: ${initialRole}\n`;
+        content += `\n### ${key}\n\n**Role:** ${initialRole}\n\n`;
         if (clarification) {
-            content += `Clarified Tasks:\n${clarification.clarified_tasks}\n`;
-            content += `Thinking Style: ${clarification.thinking_style}\n`;
+            content += `**Clarified Tasks:**\n\n${clarification.clarified_tasks}\n\n`;
+            content += `**Thinking Style:** ${clarification.thinking_style}\n`;
         }
     });
-    content += `\n====================\n\n`;
+    content += `\n`;
 
     history.forEach(h => {
-        content += `--- ROUND ${h.round} ---\n\n`;
-        content += `[${t.discussionSummary}]\n${h.summary}\n\n`;
-        content += `[${t.roundPlan}]\n`;
+        content += `## ${t.round} ${h.round}\n\n`;
+        content += `### ${t.discussionSummary}\n\n${nestMarkdown(h.summary, 3)}\n\n`;
+        content += `### ${t.roundPlan}\n\n`;
         h.plan.calls.forEach(call => {
-            content += `- Model: ${call.provider}/${call.model} (${call.role})\n`;
-            content += `  Prompt: ${call.prompt}\n`;
+            content += `- **${call.provider}/${call.model}** (${call.role}): ${call.prompt.replace(/\s*\n\s*/g, ' ')}\n`;
         });
         
         if (h.execution_results) {
-            content += `\n[${t.executionResults}]\n`;
+            content += `\n### ${t.executionResults}\n`;
             h.execution_results.forEach(res => {
                 const role = modelRoles[res.provider]?.[res.model] || '';
-                content += `\n>> Response from ${role} (${res.provider}/${res.model}):\n`;
-                content += `${res.response}\n`;
+                content += `\n#### ${role ? `${role} ` : ''}(${res.provider}/${res.model})\n\n`;
+                content += `${nestMarkdown(res.response, 4)}\n`;
             });
         }
-        content += `\n---------------------\n\n`;
+        content += `\n`;
     });
 
-    const finalReport = history[history.length - 1]?.final_report;
-    if (finalReport) {
-        content += `--- FINAL REPORT ---\n\n`;
-        content += `[${t.consensus}]\n${finalReport.consensus}\n\n`;
-        content += `[${t.keyPoints}]\n`;
-        finalReport.bullet_summary.forEach(p => content += `- ${p}\n`);
-        content += `\n[${t.documentOutline}]\n`;
-        finalReport.doc_body_blocks.forEach(b => {
-            content += `\n## ${b.heading}\n${b.content}\n`;
-        });
-    }
+    content += `## ${t.finalReport}\n\n${formatReportMarkdown(finalReport, 3, scope)}`;
     return content;
   };
 
-  const handleDownloadTranscript = () => {
-    const content = generateContent();
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'discussion-transcript.txt';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
-  const handleDownloadDoc = () => {
-    const content = generateContent();
-    const docContent = `<html><head><meta charset="utf-8"><title>Discussion Report</title><style>* { font-family: 'Arial', 'Noto Sans TC', 'Noto Sans SC', sans-serif !important; }</style></head><body><pre>${content.replace(/\n/g, '<br>')}</pre></body></html>`;
-    const blob = new Blob([docContent], { type: 'application/msword' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'discussion-report.doc';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleExport = (format: ExportFormat, finalReport: FinalReportData) => {
+    const content = generateContent(exportScope, finalReport);
+    const fileName = EXPORT_FILE_NAMES[exportScope];
+    const title = `${exportScope === 'summary' ? t.executiveSummary : exportScope === 'report' ? t.finalReport : t.title}: ${topic}`;
+    if (format === 'docx') downloadFile(markdownToDocx(content, title), DOCX_MIME_TYPE, `${fileName}.docx`);
+    else if (format === 'pdf') printDocument(markdownToHtmlDocument(content, title));
+    else downloadFile(content, 'text/markdown;charset=utf-8', `${fileName}.md`);
   };
 
   const handleDownloadCode = () => {
@@ -1041,15 +2257,7 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
         }
       });
     }
-    const blob = new Blob([codeContent], { type: 'text/javascript' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'reviewed-code.js';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(codeContent, 'text/javascript', 'reviewed-code.js');
   };
 
   // --- UI Handlers ---
@@ -1079,22 +2287,161 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
     }}));
   }
   const handleApiKeyChange = (p: string, key: string) => setApiKeys(prev => ({...prev, [p]: key}));
+
+  const handleTestModeChange = (mode: TestMode) => {
+    setTestMode(mode);
+    if (mode === 'record') {
+      recordedEntriesRef.current = [];
+      setRecordedCount(0);
+    }
+  };
+
+  const handleDownloadFixture = () => {
+    const fixture: FixtureFile = { version: 1, recorded_at: new Date().toISOString(), entries: recordedEntriesRef.current };
+    downloadFile(JSON.stringify(fixture, null, 2), 'application/json', 'discussion-fixture.json');
+  };
+
+  const handleFixtureUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const session = createReplaySession(parseFixtureFile(await readFileContent(file)));
+      replaySessionRef.current = session;
+      setReplayFixture({ name: file.name, size: session.size });
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      replaySessionRef.current = null;
+      setReplayFixture(null);
+      setError(t.fixtureInvalid);
+    }
+  };
+
+  const customProviderFormError = (() => {
+    const name = customProviderForm.name.trim();
+    if (!name || !customProviderForm.baseUrl.trim() || !customProviderForm.models.trim()) return null;
+    if (name.includes('/') || isBuiltInProvider(name) || customProviders.some(c => c.name === name)) return t.customProviderNameTaken;
+    return null;
+  })();
+
+  const humanNameError = (() => {
+    const name = humanNameInput.trim();
+    if (!name) return null;
+    return name.includes('/') || humanParticipants.includes(name) ? t.humanNameTaken : null;
+  })();
+
+  const addHumanParticipant = () => {
+    const name = humanNameInput.trim();
+    if (!name || humanNameError) return;
+    const next = [...humanParticipants, name];
+    setHumanParticipants(next);
+    setHumanParticipantNames(next);
+    setHumanNameInput("");
+    handleModelSelectionChange(HUMAN_PROVIDER, name, true);
+  };
+
+  const removeHumanParticipant = (name: string) => {
+    const next = humanParticipants.filter(n => n !== name);
+    setHumanParticipants(next);
+    setHumanParticipantNames(next);
+    handleModelSelectionChange(HUMAN_PROVIDER, name, false);
+  };
+
+  const submitHumanAnswer = (index: number) => {
+    const answer = humanDrafts[index]?.trim();
+    if (!answer) return;
+    humanAnswerRef.current[index]?.(answer);
+    setHumanDrafts(prev => { const { [index]: _, ...rest } = prev; return rest; });
+  };
+
+  const addCustomProvider = () => {
+    const config: CustomProviderConfig = {
+      name: customProviderForm.name.trim(),
+      baseUrl: customProviderForm.baseUrl.trim(),
+      models: customProviderForm.models.split(',').map(m => m.trim()).filter(Boolean),
+      capabilities: customProviderForm.capabilities.trim(),
+    };
+    if (!config.name || !config.baseUrl || config.models.length === 0 || customProviderFormError) return;
+    const next = [...customProviders, config];
+    setCustomProviders(next);
+    setCustomProviderConfigs(next);
+    setCustomProviderForm(EMPTY_CUSTOM_PROVIDER_FORM);
+  };
+
+  const removeCustomProvider = (name: string) => {
+    const next = customProviders.filter(c => c.name !== name);
+    setCustomProviders(next);
+    setCustomProviderConfigs(next);
+    setSelectedModels(prev => { const { [name]: _, ...rest } = prev; return rest; });
+    setModelRoles(prev => { const { [name]: _, ...rest } = prev; return rest; });
+    if (coordinatorModel.provider === name) setCoordinatorModel(DEFAULT_COORDINATOR);
+  };
   
+  const addFiles = (added: File[]) => {
+    const files = added.map(file => ({ file, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` }));
+    setUploadedFiles(prev => [...prev, ...files.map(({ file, id }): UploadedFile => ({ id, name: file.name, status: 'extracting' }))]);
+    // Each file settles on its own; a big PDF doesn't hold up the rest.
+    files.forEach(({ file, id }) => {
+      (isImageFile(file)
+        ? readImage(file).then((image): Partial<UploadedFile> => ({ status: 'done', image }))
+        : extractDocument(file).then((document): Partial<UploadedFile> => ({ status: 'done', document })))
+        .catch((e): Partial<UploadedFile> => {
+          console.error(`Extraction failed for ${file.name}:`, e);
+          return { status: 'failed', error: e instanceof DocumentError ? e.reason : 'unreadable' };
+        })
+        .then(update => setUploadedFiles(prev => prev.map(f => f.id === id ? { ...f, ...update } : f)));
+    });
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    setUploadedFiles(prev => [...prev, ...files]);
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    addFiles(files);
+  };
+
+  /** Screenshots pasted into the topic or code fields become image uploads; pasted text is left alone. */
+  const handlePasteImages = (e: React.ClipboardEvent) => {
+    const images = Array.from<File>(e.clipboardData.files).filter(isImageFile);
+    if (images.length === 0) return;
+    e.preventDefault();
+    addFiles(images.map((image, i) => new File([image], `screenshot-${Date.now()}${images.length > 1 ? `-${i + 1}` : ''}.${image.type.split('/')[1]}`, { type: image.type })));
   };
   
   const removeFile = (index: number) => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
   };
   
-  const addUrl = () => {
-    if (newUrl.trim()) {
-      setUrls(prev => [...prev, newUrl.trim()]);
-      setNewUrl("");
+  /** Fetches `url` into its entry, from the cache when allowed and fresh. Failures stay on the entry. */
+  const fetchUrl = async (url: string, useCache = true) => {
+    const updateUrl = (update: Partial<AttachedUrl>) => setUrls(prev => prev.map(u => u.url === url ? { ...u, ...update } : u));
+    const cached = pageCache[url];
+    if (useCache && cached && isFresh(cached)) { updateUrl({ status: 'done', page: cached, cached: true, error: undefined }); return; }
+    updateUrl({ status: 'fetching', error: undefined });
+    try {
+      const page = await loadPage(url, pageSource === 'stand_in' ? createStandInFetcher() : createProxyFetcher());
+      updateUrl({ status: 'done', page, cached: false });
+      // Stand-in pages are fake; caching them would leak them into live discussions.
+      if (pageSource === 'proxy') setPageCache(prev => prunePageCache({ ...prev, [url]: page }));
+    } catch (e) {
+      console.error(`Fetching ${url} failed:`, e);
+      updateUrl({ status: 'failed', error: e instanceof FetchError ? e.message : (e as Error).message });
     }
   };
+
+  const addUrl = () => {
+    const url = newUrl.trim();
+    if (!url) return;
+    setNewUrl("");
+    if (urls.some(u => u.url === url)) return;
+    setUrls(prev => [...prev, { url, status: 'fetching' }]);
+    fetchUrl(url);
+  };
+
+  /** Fetches the page again, bypassing the cache; the new copy replaces the cached one. */
+  const refetchUrl = (url: string) => {
+    setUrls(prev => prev.map(u => u.url === url ? { url, status: 'fetching' } : u));
+    fetchUrl(url, false);
+  };
   
   const removeUrl = (index: number) => {
     setUrls(prev => prev.filter((_, i) => i !== index));
@@ -1127,10 +2474,10 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
       {renderStepIndicator()}
       <div className="model-selection-section" style={{borderTop: 'none', paddingTop: 0}}>
           <h3>{t.selectModels}</h3>
-          <div className="providers-grid">{Object.entries(AVAILABLE_MODELS).map(([provider, models]) => (
+          <div className="providers-grid">{listProviders().map(({ name: provider, models, capabilities }) => (
               <div key={provider} className="provider-group">
                 <h4>{provider}</h4>
-                <p className="provider-capabilities">{MODEL_CAPABILITIES[language][provider]}</p>
+                <p className="provider-capabilities">{capabilities[language]}</p>
                 <div className="model-list">{models.map(model => (
                     <label key={model}><input type="checkbox" checked={selectedModels[provider]?.includes(model) || false}
                         onChange={(e) => handleModelSelectionChange(provider, model, e.target.checked)} disabled={loadingAction !== null}/> {model}</label>
@@ -1138,15 +2485,117 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
               </div>))}
           </div>
       </div>
-      {Object.keys(selectedModels).length > 0 && (<div className="api-key-section">
+      <div className="custom-provider-section">
+          <h3>{t.customProvidersTitle}</h3><p className="helper-text">{t.customProvidersHelper}</p>
+          {customProviders.map(config => (
+            <div key={config.name} className="role-card">
+              <strong>{config.name}</strong>
+              <span className="helper-text">{config.baseUrl} • {config.models.join(', ')}</span>
+              <button type="button" onClick={() => removeCustomProvider(config.name)} disabled={loadingAction !== null} className="remove-btn">{t.removeCustomProvider}</button>
+            </div>
+          ))}
+          <div className="api-key-grid">
+            <input type="text" placeholder={t.customProviderName} value={customProviderForm.name} disabled={loadingAction !== null}
+                   onChange={(e) => setCustomProviderForm(prev => ({ ...prev, name: e.target.value }))} />
+            <input type="url" placeholder={t.customProviderBaseUrl} value={customProviderForm.baseUrl} disabled={loadingAction !== null}
+                   onChange={(e) => setCustomProviderForm(prev => ({ ...prev, baseUrl: e.target.value }))} />
+            <input type="text" placeholder={t.customProviderModels} value={customProviderForm.models} disabled={loadingAction !== null}
+                   onChange={(e) => setCustomProviderForm(prev => ({ ...prev, models: e.target.value }))} />
+            <input type="text" placeholder={t.customProviderCapabilities} value={customProviderForm.capabilities} disabled={loadingAction !== null}
+                   onChange={(e) => setCustomProviderForm(prev => ({ ...prev, capabilities: e.target.value }))} />
+          </div>
+          {customProviderFormError && <p className="helper-text error-text">{customProviderFormError}</p>}
+          <div className="button-group">
+            <div></div>
+            <button type="button" className="secondary" onClick={addCustomProvider}
+                    disabled={loadingAction !== null || !!customProviderFormError || !customProviderForm.name.trim() || !customProviderForm.baseUrl.trim() || !customProviderForm.models.trim()}>
+              {t.addCustomProvider}
+            </button>
+          </div>
+      </div>
+      <div className="human-participants-section">
+          <h3>{t.humanParticipantsTitle}</h3><p className="helper-text">{t.humanParticipantsHelper}</p>
+          {humanParticipants.map(name => (
+            <div key={name} className="role-card">
+              <strong>{name}</strong>
+              <button type="button" onClick={() => removeHumanParticipant(name)} disabled={loadingAction !== null} className="remove-btn">{t.removeCustomProvider}</button>
+            </div>
+          ))}
+          <div className="url-input-group">
+            <input type="text" placeholder={t.humanNamePlaceholder} value={humanNameInput} disabled={loadingAction !== null}
+                   onChange={(e) => setHumanNameInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addHumanParticipant()} />
+            <button type="button" className="secondary" onClick={addHumanParticipant} disabled={loadingAction !== null || !humanNameInput.trim() || !!humanNameError}>{t.addHumanParticipant}</button>
+          </div>
+          {humanNameError && <p className="helper-text error-text">{humanNameError}</p>}
+      </div>
+      <div className="coordinator-section">
+          <h3>{t.coordinatorModel}</h3><p className="helper-text">{t.coordinatorHelper}</p>
+          <select value={`${coordinatorModel.provider}/${coordinatorModel.model}`} disabled={loadingAction !== null}
+                  onChange={(e) => { const [provider, ...model] = e.target.value.split('/'); setCoordinatorModel({ provider, model: model.join('/') }); }}>
+            {listProviders().filter(({ name }) => name !== HUMAN_PROVIDER).flatMap(({ name, models }) => models.map(model => (
+              <option key={`${name}/${model}`} value={`${name}/${model}`}>{name} / {model}</option>
+            )))}
+          </select>
+      </div>
+      {requiredKeyProviders.length > 0 && (<div className="api-key-section">
           <h3>{t.apiKeysTitle}</h3><p className="helper-text">{t.apiKeysHelper}</p>
-          <div className="api-key-grid">{Object.keys(selectedModels).map(provider => (
-            <input key={provider} type="password" placeholder={t.apiKeyPlaceholder(provider)} value={apiKeys[provider] || ''} onChange={(e) => handleApiKeyChange(provider, e.target.value)} disabled={loadingAction !== null} />
+          <div className="api-key-grid">{requiredKeyProviders.map(provider => (
+            <input key={provider} type="password" placeholder={getProvider(provider)?.requiresApiKey === false ? t.optionalApiKeyPlaceholder(provider) : t.apiKeyPlaceholder(provider)} value={apiKeys[provider] || ''} onChange={(e) => handleApiKeyChange(provider, e.target.value)} disabled={loadingAction !== null} />
           ))}</div>
         </div>)}
+      <div className="execution-settings-section">
+          <h3>{t.executionSettingsTitle}</h3>
+          <div className="api-key-grid">
+            <label>{t.maxRetries}
+              <input type="number" min={0} max={10} value={executionSettings.maxRetries} disabled={loadingAction !== null}
+                     onChange={(e) => setExecutionSettings(prev => ({ ...prev, maxRetries: Math.max(0, Number(e.target.value) || 0) }))} />
+            </label>
+            <label>{t.baseDelaySec}
+              <input type="number" min={0} step={0.5} value={executionSettings.baseDelaySec} disabled={loadingAction !== null}
+                     onChange={(e) => setExecutionSettings(prev => ({ ...prev, baseDelaySec: Math.max(0, Number(e.target.value) || 0) }))} />
+            </label>
+            <label>{t.budgetCapUsd}
+              <input type="number" min={0} step={0.5} value={executionSettings.budgetCapUsd} disabled={loadingAction !== null}
+                     onChange={(e) => setExecutionSettings(prev => ({ ...prev, budgetCapUsd: Math.max(0, Number(e.target.value) || 0) }))} />
+            </label>
+            <label>{t.consensusThreshold}
+              <input type="number" min={0} max={100} step={5} value={executionSettings.consensusThreshold} disabled={loadingAction !== null}
+                     onChange={(e) => setExecutionSettings(prev => ({ ...prev, consensusThreshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))} />
+            </label>
+          </div>
+          <label><input type="checkbox" checked={executionSettings.structuredOutput} disabled={loadingAction !== null}
+                        onChange={(e) => setExecutionSettings(prev => ({ ...prev, structuredOutput: e.target.checked }))} /> {t.structuredOutput}</label>
+      </div>
+      <div className="test-mode-section">
+          <h3>{t.testModeTitle}</h3><p className="helper-text">{t.testModeHelper}</p>
+          <select value={testMode} onChange={(e) => handleTestModeChange(e.target.value as TestMode)} disabled={loadingAction !== null}>
+            <option value="off">{t.testModes.off}</option>
+            <option value="record">{t.testModes.record}</option>
+            <option value="replay">{t.testModes.replay}</option>
+          </select>
+          {testMode === 'record' && (
+            <div className="role-card">
+              <span>{t.recordedCalls(recordedCount)}</span>
+              <button type="button" className="secondary" onClick={handleDownloadFixture} disabled={recordedCount === 0}>{t.downloadFixture}</button>
+            </div>
+          )}
+          <h3>{t.pageSourceTitle}</h3>
+          <select value={pageSource} onChange={(e) => setPageSource(e.target.value as PageSource)} disabled={loadingAction !== null}>
+            <option value="proxy">{t.pageSources.proxy}</option>
+            <option value="stand_in">{t.pageSources.stand_in}</option>
+          </select>
+          <p className="helper-text">{t.pageSourceHelper}</p>
+          {testMode === 'replay' && (
+            <label className="file-upload-label">
+              <input type="file" accept=".json,application/json" onChange={handleFixtureUpload} disabled={loadingAction !== null} style={{display: 'none'}} />
+              <span className="file-upload-button">{t.loadFixture}</span>
+              <span className="file-upload-text">{replayFixture ? t.fixtureLoaded(replayFixture.name, replayFixture.size) : t.noFixture}</span>
+            </label>
+          )}
+      </div>
       <div className="button-group">
           <div></div> {/* Spacer */}
-          <button onClick={() => setAppStep('SCOPING')} disabled={loadingAction !== null || !apiKeys['Google'] || flatSelectedModels.length === 0}>{t.next}</button>
+          <button onClick={() => setAppStep('SCOPING')} disabled={loadingAction !== null || !hasApiKey(coordinatorModel.provider) || flatSelectedModels.length === 0}>{t.next}</button>
       </div>
     </div>);
   
@@ -1245,6 +2694,14 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
               <option key={style} value={style}>{style}</option>
             ))}
           </select>
+          <p className="helper-text">{(DISCUSSION_STYLES[language] as Record<string, string>)[discussionStyle]}</p>
+          <h3>{t.discussionProtocol}</h3>
+          <select value={discussionProtocol} onChange={(e) => setDiscussionProtocol(e.target.value as ProtocolId)} disabled={loadingAction !== null}>
+            {DISCUSSION_PROTOCOLS.map(p => (
+              <option key={p.id} value={p.id}>{p.name[language]}</option>
+            ))}
+          </select>
+          <p className="helper-text">{protocol.description[language]}</p>
         </div>
         
         {(selectedTemplate === 'Code Architecture Review' || selectedTemplate === '程式架構審查') && (
@@ -1256,27 +2713,47 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
         {isCodeMode ? (
           <>
             <h3>{t.codeInput}</h3>
-            <textarea value={codeInput} onChange={(e) => setCodeInput(e.target.value)} placeholder={t.codePlaceholder} rows={8} disabled={loadingAction !== null} style={{fontFamily: 'monospace'}} />
+            <textarea value={codeInput} onChange={(e) => setCodeInput(e.target.value)} onPaste={handlePasteImages} placeholder={t.codePlaceholder} rows={8} disabled={loadingAction !== null} style={{fontFamily: 'monospace'}} />
             <h3>{t.errorDescription}</h3>
-            <textarea value={errorDescription} onChange={(e) => setErrorDescription(e.target.value)} placeholder={t.errorPlaceholder} rows={3} disabled={loadingAction !== null} />
+            <textarea value={errorDescription} onChange={(e) => setErrorDescription(e.target.value)} onPaste={handlePasteImages} placeholder={t.errorPlaceholder} rows={3} disabled={loadingAction !== null} />
           </>
         ) : (
-          <textarea value={topic} onChange={(e) => { setTopic(e.target.value); suggestRolesForTopic(e.target.value); }} placeholder={t.topicPlaceholder} rows={4} disabled={loadingAction !== null} />
+          <textarea value={topic} onChange={(e) => { setTopic(e.target.value); suggestRolesForTopic(e.target.value); }} onPaste={handlePasteImages} placeholder={t.topicPlaceholder} rows={4} disabled={loadingAction !== null} />
         )}
         
         <div className="file-upload-section">
           <h3>{t.uploadFiles}</h3>
           <label className="file-upload-label">
-            <input type="file" multiple onChange={handleFileUpload} disabled={loadingAction !== null} accept=".txt,.pdf,.doc,.docx,.md" style={{display: 'none'}} />
+            <input type="file" multiple onChange={handleFileUpload} disabled={loadingAction !== null} accept={SUPPORTED_EXTENSIONS.join(',')} style={{display: 'none'}} />
             <span className="file-upload-button">{language === 'zh' ? '選擇檔案' : 'Choose Files'}</span>
-            <span className="file-upload-text">{uploadedFiles.length === 0 ? (language === 'zh' ? '支援 .txt, .pdf, .doc, .docx, .md' : 'Supports .txt, .pdf, .doc, .docx, .md') : `${uploadedFiles.length} file(s) selected`}</span>
+            <span className="file-upload-text">{uploadedFiles.length === 0 ? `${language === 'zh' ? '支援' : 'Supports'} ${SUPPORTED_EXTENSIONS.join(', ')}` : `${uploadedFiles.length} file(s) selected`}</span>
           </label>
+          <p className="helper-text">{t.imageUploadHint}</p>
           {uploadedFiles.length > 0 && (
             <div className="uploaded-files">
               {uploadedFiles.map((file, index) => (
-                <div key={index} className="role-card">
-                  <span>{file.name}</span>
-                  <button type="button" onClick={() => removeFile(index)} disabled={loadingAction !== null} className="remove-btn">{t.removeFile}</button>
+                <div key={file.id} className="role-card">
+                  <div className="uploaded-file-header">
+                    <span>{file.name}</span>
+                    <span className={`result-status ${file.status}`}>{t.extractionStatus[file.status]} {file.status === 'extracting' && <InlineLoader />}</span>
+                    {file.document && <span className="result-metrics">{t.extractionStats(file.document.text.length, file.document.pages, file.document.sheets)}</span>}
+                    {file.image && <span className="result-metrics">{t.imageStats(Math.round(file.image.data.length * 3 / 4 / 1024))}</span>}
+                    <button type="button" onClick={() => removeFile(index)} disabled={loadingAction !== null} className="remove-btn">{t.removeFile}</button>
+                  </div>
+                  {file.error && <p className="helper-text extraction-error">{t.extractionErrors[file.error]}</p>}
+                  {file.document && (
+                    <details className="extraction-preview">
+                      <summary>{t.previewExtractedText}</summary>
+                      <pre><code>{file.document.text}</code></pre>
+                    </details>
+                  )}
+                  {file.image && <img className="image-preview" src={`data:${file.image.mimeType};base64,${file.image.data}`} alt={file.name} />}
+                  {file.description && (
+                    <details className="extraction-preview">
+                      <summary>{t.previewImageDescription(`${file.description.metrics.provider}/${file.description.metrics.model}`)}</summary>
+                      <pre><code>{file.description.text}</code></pre>
+                    </details>
+                  )}
                 </div>
               ))}
             </div>
@@ -1291,19 +2768,31 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
           </div>
           {urls.length > 0 && (
             <div className="url-list">
-              {urls.map((url, index) => (
-                <div key={index} className="role-card">
-                  <span style={{wordBreak: 'break-all'}}>{url}</span>
-                  <button type="button" onClick={() => removeUrl(index)} disabled={loadingAction !== null} className="remove-btn">{t.removeUrl}</button>
+              {urls.map(({ url, status, page, cached, error }, index) => (
+                <div key={url} className="role-card">
+                  <div className="uploaded-file-header">
+                    <span style={{wordBreak: 'break-all'}}>{url}</span>
+                    <span className={`result-status ${status}`}>{t.fetchStatus[status]} {status === 'fetching' && <InlineLoader />}</span>
+                    {page && <span className="result-metrics">{t.fetchedPageStats(page.text.length, cached ? new Date(page.fetchedAt).toLocaleString() : null)}</span>}
+                    {status !== 'fetching' && <button type="button" className="tertiary refetch-btn" onClick={() => refetchUrl(url)} disabled={loadingAction !== null}>{t.refetchUrl}</button>}
+                    <button type="button" onClick={() => removeUrl(index)} disabled={loadingAction !== null} className="remove-btn">{t.removeUrl}</button>
+                  </div>
+                  {error && <p className="helper-text extraction-error">{t.fetchFailed(error)}</p>}
+                  {page && (
+                    <details className="extraction-preview">
+                      <summary>{t.previewPage(page.title)}</summary>
+                      <pre><code>{page.text}</code></pre>
+                    </details>
+                  )}
                 </div>
               ))}
             </div>
           )}
         </div>
         
-        {flatSelectedModels.filter(({ provider }) => apiKeys[provider]).length > 0 && (
+        {flatSelectedModels.filter(({ provider }) => hasApiKey(provider)).length > 0 && (
           <div className="role-assignment-section"><h3>{t.assignCompanyRole}</h3>
-              <div className="role-assignment-list">{flatSelectedModels.filter(({ provider }) => apiKeys[provider]).map(({ provider, model }) => (
+              <div className="role-assignment-list">{flatSelectedModels.filter(({ provider }) => hasApiKey(provider)).map(({ provider, model }) => (
                   <div key={`${provider}-${model}`} className="role-card">
                       <strong>{provider} / {model}</strong>
                       <input type="text" placeholder={t.assignRolePlaceholder} value={modelRoles[provider]?.[model] || ''}
@@ -1312,14 +2801,67 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
               ))}</div>
           </div>
         )}
+        {isPreparingSources && <p className="helper-text">{t.filesExtracting}</p>}
         <div className="button-group">
             <button className="secondary" onClick={() => setAppStep('CONFIG')} disabled={loadingAction !== null}>{t.back}</button>
-            <button onClick={handleClarifyRoles} disabled={loadingAction !== null || (!isCodeMode && !topic.trim()) || (isCodeMode && !codeInput.trim()) || flatSelectedModels.some(({provider, model}) => !modelRoles[provider]?.[model]?.trim())}>
-                {t.clarifyRoles} {loadingAction === 'clarify' && <InlineLoader />}
-            </button>
+            <div className="button-group-end">
+              <button className="tertiary" onClick={handleCompareModels} disabled={loadingAction !== null || isPreparingSources || (!isCodeMode && !topic.trim()) || (isCodeMode && !codeInput.trim()) || !flatSelectedModels.some(({ provider }) => provider !== HUMAN_PROVIDER)}>
+                  {t.compareModels} {loadingAction === 'compare' && <InlineLoader />}
+              </button>
+              <button onClick={handleClarifyRoles} disabled={loadingAction !== null || isPreparingSources || (!isCodeMode && !topic.trim()) || (isCodeMode && !codeInput.trim()) || flatSelectedModels.some(({provider, model}) => !modelRoles[provider]?.[model]?.trim())}>
+                  {t.clarifyRoles} {loadingAction === 'clarify' && <InlineLoader />}
+              </button>
+            </div>
         </div>
+        {comparison && renderComparison(comparison)}
     </div>);
 
+  /** Flags answers written from image descriptions, since the model never saw the images themselves. */
+  const renderImageInput = ({ count, described }: NonNullable<ExecutionResult['images']>) => described
+    ? <span className="result-metrics described-images" title={t.imagesDescribedHelp}>{t.imagesDescribed(count)}</span>
+    : <span className="result-metrics">{t.imagesInline(count)}</span>;
+
+  const renderComparison = ({ results }: Comparison) => (
+    <div className="comparison-section">
+      <h3>{t.comparisonTitle}</h3>
+      <p className="helper-text">{t.comparisonHelper}</p>
+      <div className="comparison-grid" style={{ gridTemplateColumns: `repeat(${results.length}, minmax(16rem, 1fr))` }}>
+        {results.map((result, index) => {
+          const stats = getAnswerStats(result.response);
+          const others = results.filter((r, j) => j !== index && isUsableResult(r)).map(r => r.response);
+          return (
+            <div key={index} className="comparison-column">
+              <div className="comparison-header">
+                <strong>{result.provider}/{result.model}</strong>
+                {result.status && <span className={`result-status ${result.status}`}>{t.resultStatus[result.status]} {result.status === 'streaming' && <InlineLoader />}</span>}
+                <span className="result-metrics">
+                  {t.answerStats(stats.words, stats.characters)}
+                  {result.latency_ms !== undefined && ` • ${formatLatency(result.latency_ms)}`}
+                </span>
+                {result.images && renderImageInput(result.images)}
+              </div>
+              <pre className="comparison-answer"><code>
+                {result.status === 'done' && loadingAction !== 'compare'
+                  ? highlightDistinct(result.response, others).map((segment, i) => segment.distinct ? <mark key={i}>{segment.text}</mark> : <span key={i}>{segment.text}</span>)
+                  : result.response}
+              </code></pre>
+            </div>
+          );
+        })}
+      </div>
+      <div className="button-group">
+        {loadingAction === 'compare' ? (
+          <button className="danger" onClick={handleCancelRound}>{t.cancelRound}</button>
+        ) : (
+          <>
+            <button className="secondary" onClick={() => setComparison(null)}>{t.closeComparison}</button>
+            <button onClick={handlePromoteComparison} disabled={loadingAction !== null || !results.some(isUsableResult)}>{t.promoteComparison}</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
   const renderClarificationStep = () => (<div className="card input-section">
         {renderStepIndicator()}
         <h3>{t.editClarifiedRoles}</h3>
@@ -1343,20 +2885,389 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
         </div>
     </div>);
   
+  const renderBranchForm = (draft: BranchDraft, isExecuted: boolean) => {
+    const draftParticipants = Object.entries(draft.selectedModels).flatMap(([provider, models]) => models.map(model => ({ provider, model })));
+    const isValid = draft.mode === 'replan'
+      || (draft.mode === 'followup' && !!draft.question.trim())
+      || (draft.mode === 'participants' && draftParticipants.length > 0 && draftParticipants.every(({ provider, model }) => draft.modelRoles[provider]?.[model]?.trim()));
+    return (
+      <div className="role-card branch-form">
+        <select value={draft.mode} onChange={(e) => setBranchDraft({ ...draft, mode: e.target.value as BranchMode })}>
+          <option value="replan">{t.branchModes.replan}</option>
+          {isExecuted && <option value="followup">{t.branchModes.followup}</option>}
+          {isExecuted && <option value="participants">{t.branchModes.participants}</option>}
+        </select>
+        {draft.mode === 'followup' && (
+          <textarea value={draft.question} rows={3} placeholder={t.branchQuestionPlaceholder}
+                    onChange={(e) => setBranchDraft({ ...draft, question: e.target.value })} />
+        )}
+        {draft.mode === 'participants' && (
+          <div className="branch-participants">
+            {listProviders().flatMap(({ name: provider, models }) => models.map(model => {
+              const isChecked = draft.selectedModels[provider]?.includes(model) || false;
+              return (
+                <div key={`${provider}/${model}`} className="branch-participant">
+                  <label><input type="checkbox" checked={isChecked} onChange={(e) => toggleDraftParticipant(provider, model, e.target.checked)} /> {provider}/{model}</label>
+                  {isChecked && (
+                    <input type="text" value={draft.modelRoles[provider]?.[model] || ''} placeholder={t.assignRolePlaceholder}
+                           onChange={(e) => setDraftRole(provider, model, e.target.value)} />
+                  )}
+                </div>
+              );
+            }))}
+          </div>
+        )}
+        <div className="button-group">
+          <button type="button" className="secondary" onClick={() => setBranchDraft(null)}>{t.cancel}</button>
+          <button type="button" onClick={handleCreateBranch} disabled={!isValid}>{t.createBranch}</button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderBranchPanel = () => {
+    if (branches.length === 0) return null;
+    const all = currentBranches();
+    const active = all.find(b => b.id === activeBranchId);
+    const compared = all.find(b => b.id === compareBranchId);
+    const finalReportOf = (branch: DiscussionBranch) => [...branch.history].reverse().find(h => h.final_report)?.final_report;
+    return (
+      <div className="card branch-panel">
+        <h3>{t.branchesTitle}</h3>
+        <div className="branch-list">
+          {orderBranches(all).map(({ branch, depth }) => (
+            <button key={branch.id} type="button" className={`secondary branch-item ${branch.id === activeBranchId ? 'active' : ''}`}
+                    style={{ marginLeft: `${depth * 1.5}rem` }} onClick={() => switchBranch(branch.id)}
+                    disabled={loadingAction !== null || isAutopilotRunning}>
+              {branch.name} • {t.roundsCount(branch.history.length)}
+            </button>
+          ))}
+        </div>
+        <select className="branch-compare-select" value={compareBranchId || ''} onChange={(e) => setCompareBranchId(e.target.value || null)}>
+          <option value="">{t.compareWith}</option>
+          {all.filter(b => b.id !== activeBranchId).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+        {active && compared && (
+          <div className="branch-compare">
+            {[{ branch: active, other: compared }, { branch: compared, other: active }].map(({ branch, other }) => (
+              <div key={branch.id} className="branch-column">
+                <h4>{branch.name}</h4>
+                {branch.history.map((h, i) => (
+                  // Rounds identical in both branches are the shared trunk; the rest is where they diverge.
+                  <div key={h.round} className={`branch-round ${JSON.stringify(h) === JSON.stringify(other.history[i]) ? '' : 'diverged'}`}>
+                    <strong>{t.round} {h.round}</strong>
+                    {h.consensus && <span className="result-metrics">{t.agreement}: {formatAgreement(h.consensus.agreement)}</span>}
+                    <p>{h.summary}</p>
+                  </div>
+                ))}
+                <h4>{t.finalReport}</h4>
+                <p>{finalReportOf(branch)?.consensus || t.noFinalReport}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderResultActions = (result: ExecutionResult, resIndex: number) => {
+    const target = reassignTargets[resIndex] || '';
+    const others = flatSelectedModels.filter(({ provider, model }) => provider !== result.provider || model !== result.model);
+    return (
+      <>
+        <div className="result-actions">
+          <button type="button" className="tertiary" onClick={() => handleRerunCall(resIndex)} disabled={isExecuteOverBudget}>{t.regenerate}</button>
+          {others.length > 0 && (
+            <>
+              <select value={target} onChange={(e) => setReassignTargets(prev => ({ ...prev, [resIndex]: e.target.value }))}>
+                <option value="">{t.reassignTo}</option>
+                {others.map(({ provider, model }) => (
+                  <option key={`${provider}/${model}`} value={`${provider}/${model}`}>{provider} / {model}</option>
+                ))}
+              </select>
+              <button type="button" className="tertiary" disabled={!target || isExecuteOverBudget} onClick={() => {
+                const [provider, ...model] = target.split('/');
+                handleRerunCall(resIndex, { provider, model: model.join('/') });
+                setReassignTargets(prev => ({ ...prev, [resIndex]: '' }));
+              }}>{t.reassign}</button>
+            </>
+          )}
+        </div>
+        {result.alternates && result.alternates.length > 0 && (
+          <details className="alternates">
+            <summary>{t.alternatesCount(result.alternates.length)}</summary>
+            {result.alternates.map((alt, altIndex) => (
+              <div key={altIndex} className="alternate">
+                <strong>{alt.provider}/{alt.model}</strong>
+                {alt.status && <span className={`result-status ${alt.status}`}>{t.resultStatus[alt.status]}</span>}
+                <MarkdownView text={alt.response} raw={showRawText} />
+                <button type="button" className="secondary" onClick={() => chooseAlternate(resIndex, altIndex)} disabled={isExecuteOverBudget}>{t.useAlternate}</button>
+              </div>
+            ))}
+          </details>
+        )}
+      </>
+    );
+  };
+
+  const renderContextReport = (report: ContextReport) => (
+    <details className="context-report">
+      <summary>{t.contextTrimmed(report.used_tokens, report.budget_tokens)}</summary>
+      <ul>
+        {report.summarized_rounds.length > 0 && <li>{t.summarizedRounds(report.summarized_rounds.join(', '))}</li>}
+        {report.shortened_responses > 0 && <li>{t.shortenedResponses(report.shortened_responses)}</li>}
+        {report.trimmed_documents.map(doc => <li key={doc.name}>{t.trimmedDocument(doc.name, doc.kept_chunks, doc.total_chunks)}</li>)}
+      </ul>
+    </details>
+  );
+
+  /** Scrolls to the response a citation points at and highlights it. */
+  const jumpToSource = (source: Citation) => {
+    const index = history.find(h => h.round === source.round)?.execution_results
+        ?.findIndex(r => r.provider === source.provider && r.model === source.model) ?? -1;
+    if (index < 0) return;
+    document.getElementById(`result-${source.round}-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedSource(source);
+  };
+
+  const renderCitation = (source: Citation, label: string) => (
+    <button type="button" className="citation" title={t.citationSource(source.round, `${source.provider}/${source.model}`)} onClick={() => jumpToSource(source)}>{label}</button>
+  );
+
+  const renderCitations = (citations: Citation[] | undefined, footnotes: Footnotes) => {
+    const numbers = footnotes.numbersFor(citations);
+    return numbers.length > 0 && (
+      <sup className="citations">{numbers.map(n => <React.Fragment key={n}>{renderCitation(footnotes.notes[n - 1], `[${n}]`)}</React.Fragment>)}</sup>
+    );
+  };
+
+  const renderReportContent = (report: FinalReportData) => {
+    const footnotes = getReportFootnotes(report);
+    return (
+      <>
+        <h3>{t.consensus}</h3><MarkdownView text={report.consensus} raw={showRawText} />
+        <h3>{t.keyPoints}</h3><ul>{report.bullet_summary.map((p, i) => <li key={i}>{showRawText ? p : <InlineMarkdown text={p} />}{renderCitations(report.bullet_sources?.[i], footnotes)}</li>)}</ul>
+        <h3>{t.documentOutline}</h3>{report.doc_body_blocks.map((block, i) => (
+          <div key={i} className="doc-block"><h4>{block.heading}{renderCitations(block.sources, footnotes)}</h4><MarkdownView text={block.content} raw={showRawText} /></div>))}
+        {footnotes.notes.length > 0 && (
+          <>
+            <h3>{t.sources}</h3>
+            <ol className="report-sources">{footnotes.notes.map((source, i) => <li key={i}>{renderCitation(source, t.citationSource(source.round, `${source.provider}/${source.model}`))}</li>)}</ol>
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderOriginalPlan = (plan: RoundPlan) => (
+    <details className="original-plan">
+      <summary>{t.planEditedByHand}</summary>
+      {plan.calls.map((call, i) => (
+        <div key={i} className="original-call">
+          <strong>#{i + 1} {call.provider}/{call.model}</strong> <span className="role">{call.role}</span>
+          <pre><code>{call.prompt}</code></pre>
+        </div>
+      ))}
+    </details>
+  );
+
+  const renderClaims = ({ claims, assumptions, open_questions }: StructuredResponse) => (
+    <div className="claims">
+      <table className="claims-table">
+        <thead><tr><th>#</th><th>{t.claimsTable.claim}</th><th>{t.claimsTable.evidence}</th><th>{t.claimsTable.confidence}</th></tr></thead>
+        <tbody>
+          {claims.map((claim, i) => (
+            <tr key={i}>
+              <td>{i + 1}</td>
+              <td><InlineMarkdown text={claim.statement} /></td>
+              <td>{claim.evidence.length > 0 ? <ul>{claim.evidence.map((e, j) => <li key={j}><InlineMarkdown text={e} /></li>)}</ul> : '—'}</td>
+              <td className="claim-confidence">{Math.round(claim.confidence * 100)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {assumptions.length > 0 && (<><h4>{t.assumptions}</h4><ul>{assumptions.map((a, i) => <li key={i}>{a}</li>)}</ul></>)}
+      {open_questions.length > 0 && (<><h4>{t.openQuestions}</h4><ul>{open_questions.map((q, i) => <li key={i}>{q}</li>)}</ul></>)}
+    </div>
+  );
+
+  /** `threshold` is the agreement that stops the discussion, marked on the meter; 0 marks nothing. */
+  const renderConsensus = (consensus: ConsensusScore, threshold: number) => {
+    const disputed = getDisputedPoints(consensus);
+    return (
+      <div className="consensus-section">
+        <h3>{t.agreement}: {formatAgreement(consensus.agreement)}</h3>
+        <div className="consensus-meter">
+          <div className="consensus-meter-fill" style={{ width: formatAgreement(consensus.agreement) }}></div>
+          {threshold > 0 && <div className="consensus-meter-threshold" style={{ left: `${threshold}%` }}></div>}
+        </div>
+        {disputed.length > 0 && (
+          <>
+            <h4>{t.disputedPoints}</h4>
+            <ul className="disputed-points">
+              {disputed.map((q, i) => (
+                <li key={i}>
+                  <strong>{q.question}</strong> ({formatAgreement(q.agreement)})
+                  <ul>{q.camps.map((camp, j) => <li key={j}>{camp.position}: {camp.participants.join(', ')}</li>)}</ul>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderAutopilotPanel = () => {
+    if (isFinished && !autopilotStatus) return null;
+    const updateSetting = (field: keyof AutopilotSettings, value: string, max = Infinity) =>
+      setAutopilotSettings(prev => ({ ...prev, [field]: Math.min(max, Math.max(0, Number(value) || 0)) }));
+    return (
+      <div className="card autopilot-section">
+        <h3>{t.autopilotTitle}</h3><p className="helper-text">{t.autopilotHelper}</p>
+        <div className="api-key-grid">
+          <label>{t.autopilotMaxRounds}
+            <input type="number" min={1} value={autopilotSettings.maxRounds} disabled={isAutopilotRunning}
+                   onChange={(e) => updateSetting('maxRounds', e.target.value)} />
+          </label>
+          <label>{t.autopilotBudget}
+            <input type="number" min={0} step={0.5} value={autopilotSettings.budgetUsd} disabled={isAutopilotRunning}
+                   onChange={(e) => updateSetting('budgetUsd', e.target.value)} />
+          </label>
+          <label>{t.autopilotThreshold}
+            <input type="number" min={0} max={100} step={5} value={autopilotSettings.consensusThreshold} disabled={isAutopilotRunning}
+                   onChange={(e) => updateSetting('consensusThreshold', e.target.value, 100)} />
+          </label>
+        </div>
+        {autopilotStatus && <p className="autopilot-status">{autopilotStatus}</p>}
+        <div className="button-group">
+          {isAutopilotRunning ? (
+            <button onClick={handleInterruptAutopilot} className="danger">{t.interruptAutopilot} <InlineLoader /></button>
+          ) : !isFinished && (
+            <button onClick={handleStartAutopilot} disabled={loadingAction !== null || autopilotSettings.maxRounds < 1}>{t.startAutopilot}</button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderUsagePanel = () => {
+    if (allMetrics.length === 0) return null;
+    const totals = sumMetrics(allMetrics, priceTable);
+    const pricedModels = Array.from(new Set([
+      ...flatSelectedModels.map(({ provider, model }) => `${provider}/${model}`),
+      `${coordinatorModel.provider}/${coordinatorModel.model}`,
+      ...allMetrics.map(m => `${m.provider}/${m.model}`),
+    ]));
+    const updatePrice = (key: string, field: 'inputPerMillion' | 'outputPerMillion', value: string) => {
+      const current = priceTable[key] || { inputPerMillion: 0, outputPerMillion: 0 };
+      setPriceOverrides(prev => ({ ...prev, [key]: { ...current, [field]: Math.max(0, Number(value) || 0) } }));
+    };
+    return (
+      <div className="card usage-panel">
+        <h3>{t.usageTitle}</h3>
+        <table className="usage-table">
+          <thead><tr>
+            <th>{t.usageModel}</th><th>{t.usageCalls}</th><th>{t.usageInput}</th><th>{t.usageOutput}</th><th>{t.usageLatency}</th><th>{t.usageCost}</th>
+          </tr></thead>
+          <tbody>
+            {groupMetricsByModel(allMetrics, priceTable).map(([key, m]) => (
+              <tr key={key}>
+                <td>{key}</td><td>{m.calls}</td><td>{m.inputTokens}</td><td>{m.outputTokens}</td>
+                <td>{formatLatency(m.latencyMs / m.calls)}</td><td>{formatCost(m.costUsd)}</td>
+              </tr>
+            ))}
+            <tr className="usage-total">
+              <td>{t.usageTotal}</td><td>{totals.calls}</td><td>{totals.inputTokens}</td><td>{totals.outputTokens}</td>
+              <td>{formatLatency(totals.latencyMs / totals.calls)}</td><td>{formatCost(totals.costUsd)}</td>
+            </tr>
+          </tbody>
+        </table>
+        {executionSettings.budgetCapUsd > 0 && <p className="helper-text">{t.usageBudget(formatCost(spentUsd), formatCost(executionSettings.budgetCapUsd))}</p>}
+        {totals.unpricedCalls > 0 && <p className="helper-text">{t.usageUnpriced(totals.unpricedCalls)}</p>}
+        <details className="price-editor">
+          <summary>{t.editPrices}</summary>
+          {pricedModels.map(key => (
+            <div key={key} className="price-row">
+              <span>{key}</span>
+              <label>{t.priceInput}
+                <input type="number" min={0} step={0.01} value={priceTable[key]?.inputPerMillion ?? 0} onChange={(e) => updatePrice(key, 'inputPerMillion', e.target.value)} />
+              </label>
+              <label>{t.priceOutput}
+                <input type="number" min={0} step={0.01} value={priceTable[key]?.outputPerMillion ?? 0} onChange={(e) => updatePrice(key, 'outputPerMillion', e.target.value)} />
+              </label>
+            </div>
+          ))}
+        </details>
+      </div>
+    );
+  };
+
   const renderDiscussion = () => (
     <>
       <div className="card">
         {renderStepIndicator()}
-        <button onClick={startNewDiscussion} disabled={loadingAction !== null} style={{alignSelf: 'flex-start'}}>{t.startNewDiscussion}</button>
+        <button onClick={startNewDiscussion} disabled={loadingAction !== null || isAutopilotRunning} style={{alignSelf: 'flex-start'}}>{t.startNewDiscussion}</button>
       </div>
+      {renderUsagePanel()}
+      {renderAutopilotPanel()}
+      {renderBranchPanel()}
       <div className="results-section">
           {history.map((item, index) => (
               <div key={item.round} className="card">
                   <div className="round-container">
-                      <h2>{t.round} {item.round}</h2><h3>{t.discussionSummary}</h3><p>{item.summary}</p>
-                      <h3>{t.roundPlan}</h3>
-                      {item.plan.calls.map((call, callIndex) => (
+                      <h2>{t.round} {item.round}
+                        {loadingAction === null && !isAutopilotRunning && (
+                          <button type="button" className="tertiary branch-btn" disabled={branchDraft?.round === item.round}
+                                  onClick={() => setBranchDraft({ round: item.round, mode: item.execution_results ? 'followup' : 'replan', question: '', selectedModels, modelRoles })}>
+                            {t.branchFromHere}
+                          </button>
+                        )}
+                      </h2>
+                      {branchDraft?.round === item.round && renderBranchForm(branchDraft, !!item.execution_results)}
+                      <h3>{t.discussionSummary}</h3><MarkdownView text={item.summary} raw={showRawText} />
+                      {item.context_report && isTrimmed(item.context_report) && renderContextReport(item.context_report)}
+                      <h3>{t.roundPlan}
+                        {history.length === index + 1 && !item.execution_results && !isFinished && !isAutopilotRunning && (
+                          <button type="button" className="tertiary plan-edit-toggle" onClick={() => setIsEditingPlan(editing => !editing)} disabled={loadingAction !== null}>
+                            {isEditingPlan ? t.doneEditingPlan : t.editPlan}
+                          </button>
+                        )}
+                      </h3>
+                      {item.original_plan && renderOriginalPlan(item.original_plan)}
+                      {history.length === index + 1 && !item.execution_results && !isFinished && isEditingPlan && loadingAction === null ? (
+                        <>
+                          {item.plan.calls.map((call, callIndex) => (
+                            <div key={callIndex} className="call-card editing"><strong>{call.provider}/{call.model}</strong>
+                              <span className="call-order-controls">
+                                <span className="call-order">#{callIndex + 1}</span>
+                                <button type="button" className="tertiary" onClick={() => moveCall(callIndex, -1)} disabled={callIndex === 0} title={t.moveUp}>↑</button>
+                                <button type="button" className="tertiary" onClick={() => moveCall(callIndex, 1)} disabled={callIndex === item.plan.calls.length - 1} title={t.moveDown}>↓</button>
+                                <button type="button" className="remove-btn" onClick={() => removeCall(callIndex)} title={t.removeCall}>×</button>
+                              </span>
+                              <input type="text" value={call.role} placeholder={t.callRolePlaceholder} onChange={(e) => updateCall(callIndex, 'role', e.target.value)} />
+                              <textarea value={call.prompt} rows={6} placeholder={t.callPromptPlaceholder} onChange={(e) => updateCall(callIndex, 'prompt', e.target.value)} />
+                            </div>
+                          ))}
+                          <div className="url-input-group">
+                            <select value={newCallModel} onChange={(e) => setNewCallModel(e.target.value)}>
+                              <option value="">{t.selectCallModel}</option>
+                              {flatSelectedModels.map(({ provider, model }) => (
+                                <option key={`${provider}/${model}`} value={`${provider}/${model}`}>{provider} / {model}</option>
+                              ))}
+                            </select>
+                            <button type="button" className="secondary" onClick={() => { addCall(newCallModel); setNewCallModel(""); }} disabled={!newCallModel}>{t.addCall}</button>
+                          </div>
+                        </>
+                      ) : item.plan.calls.map((call, callIndex) => (
                           <div key={callIndex} className="call-card"><strong>{call.provider}/{call.model}</strong>
+                              {history.length === index + 1 && !item.execution_results && !isFinished && executionMode === 'sequential' && (
+                                <span className="call-order-controls">
+                                  <span className="call-order">#{callIndex + 1}</span>
+                                  <button type="button" className="tertiary" onClick={() => moveCall(callIndex, -1)} disabled={loadingAction !== null || callIndex === 0} title={t.moveUp}>↑</button>
+                                  <button type="button" className="tertiary" onClick={() => moveCall(callIndex, 1)} disabled={loadingAction !== null || callIndex === item.plan.calls.length - 1} title={t.moveDown}>↓</button>
+                                </span>
+                              )}
                               <div className="role">{call.role}</div>
                               <pre><code>{call.prompt.split('\n').map((line, i) => {
                                 if (line.trim() === '') return <br key={i} />;
@@ -1370,29 +3281,73 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
                   </div>
 
                   {item.execution_results && (
-                    <div className="execution-results-section">
-                        <h3>{t.executionResults}</h3>
+                    <div className={`execution-results-section ${item.execution_mode === 'sequential' ? 'execution-thread' : ''}`}>
+                        <h3>{t.executionResults}
+                          <button type="button" className="tertiary raw-text-toggle" onClick={() => setShowRawText(raw => !raw)}>{showRawText ? t.showFormatted : t.showRawText}</button>
+                        </h3>
                         {item.execution_results.map((result, resIndex) => (
-                          <div key={resIndex} className="execution-result-card">
-                            <strong>{modelRoles[result.provider]?.[result.model] || ''} ({result.provider}/{result.model})</strong>
-                            <pre><code>{result.response}</code></pre>
+                          <div key={resIndex} id={`result-${item.round}-${resIndex}`}
+                               className={`execution-result-card ${highlightedSource && isSameSource(highlightedSource, { round: item.round, provider: result.provider, model: result.model }) ? 'highlighted' : ''}`}>
+                            <strong>{item.execution_mode === 'sequential' && `#${resIndex + 1} `}{modelRoles[result.provider]?.[result.model] || ''} ({result.provider}/{result.model})</strong>
+                            {result.replying_to && result.replying_to.length > 0 && (
+                              <span className="result-metrics">{t.respondingTo(result.replying_to.map(i => {
+                                const earlier = item.execution_results![i];
+                                return `#${i + 1} ${earlier.provider}/${earlier.model}`;
+                              }).join(', '))}</span>
+                            )}
+                            {result.status && <span className={`result-status ${result.status}`}>{t.resultStatus[result.status]} {result.status === 'streaming' && <InlineLoader />}</span>}
+                            {result.latency_ms !== undefined && (
+                              <span className="result-metrics">
+                                {formatLatency(result.latency_ms)}
+                                {result.usage && ` • ${result.usage.inputTokens} / ${result.usage.outputTokens} ${t.tokens}`}
+                                {estimateCost(result, priceTable) !== null && ` • ${formatCost(estimateCost(result, priceTable)!)}`}
+                              </span>
+                            )}
+                            {result.memory && result.memory.turns + result.memory.dropped > 0 && (
+                              <span className={`result-metrics ${result.memory.dropped > 0 ? 'truncated' : ''}`}>{t.memoryInfo(result.memory.turns, result.memory.dropped)}</span>
+                            )}
+                            {result.images && renderImageInput(result.images)}
+                            {result.status === 'awaiting_input' ? (
+                              <div className="human-answer">
+                                <p className="helper-text">{item.plan.calls[resIndex]?.prompt}</p>
+                                <textarea value={humanDrafts[resIndex] || ''} rows={5} placeholder={t.humanAnswerPlaceholder}
+                                          onChange={(e) => setHumanDrafts(prev => ({ ...prev, [resIndex]: e.target.value }))} />
+                                <div className="button-group">
+                                  <div></div>
+                                  <button onClick={() => submitHumanAnswer(resIndex)} disabled={!humanDrafts[resIndex]?.trim()}>{t.submitHumanAnswer}</button>
+                                </div>
+                              </div>
+                            ) : result.structured ? renderClaims(result.structured) : <MarkdownView text={result.response} raw={showRawText || result.status === 'streaming'} />}
+                            {history.length === index + 1 && !isFinished && !isAutopilotRunning && loadingAction === null && renderResultActions(result, resIndex)}
                           </div>
                         ))}
                     </div>
                   )}
 
+                  {item.consensus && renderConsensus(item.consensus, item.auto_stop_threshold ?? (isAutopilotRunning ? autopilotThreshold : executionSettings.consensusThreshold))}
+                  {history.length === index + 1 && loadingAction === 'consensus' && <p className="helper-text">{t.measuringAgreement} <InlineLoader /></p>}
+
                   {item.final_report && (
                        <div className="final-report">
-                           <h2>{t.finalReport}</h2>
+                           <h2>{t.finalReport}
+                             <button type="button" className="tertiary raw-text-toggle" onClick={() => setShowRawText(raw => !raw)}>{showRawText ? t.showFormatted : t.showRawText}</button>
+                           </h2>
                            <div className="stop-reason">{t.stopReason}: {t.stopConditions[item.plan.stop_condition]}</div>
-                           <h3>{t.consensus}</h3><p>{item.final_report.consensus}</p>
-                           <h3>{t.keyPoints}</h3><ul>{item.final_report.bullet_summary.map((p, i) => <li key={i}>{p}</li>)}</ul>
-                           <h3>{t.documentOutline}</h3>{item.final_report.doc_body_blocks.map((block, i) => (
-                                <div key={i} className="doc-block"><h4>{block.heading}</h4><p>{block.content}</p></div>))}
+                           {item.final_context_report && isTrimmed(item.final_context_report) && renderContextReport(item.final_context_report)}
+                           {item.auto_stop_threshold !== undefined && item.consensus && (
+                             <p className="helper-text">{t.autoStopped(formatAgreement(item.consensus.agreement), item.auto_stop_threshold)}</p>
+                           )}
+                           {renderReportContent(item.final_report)}
                            
                            <div className="button-group final-report-buttons">
-                                <button className="secondary" onClick={handleDownloadTranscript} disabled={loadingAction !== null}>{t.downloadTranscript}</button>
-                                <button className="tertiary" onClick={handleDownloadDoc} disabled={loadingAction !== null}>{t.downloadDoc}</button>
+                                <select className="export-scope-select" value={exportScope} onChange={(e) => setExportScope(e.target.value as ExportScope)} disabled={loadingAction !== null}>
+                                  <option value="transcript">{t.exportScopes.transcript}</option>
+                                  <option value="report">{t.exportScopes.report}</option>
+                                  <option value="summary">{t.exportScopes.summary}</option>
+                                </select>
+                                <button className="secondary" onClick={() => handleExport('docx', item.final_report!)} disabled={loadingAction !== null}>{t.exportFormats.docx}</button>
+                                <button className="tertiary" onClick={() => handleExport('pdf', item.final_report!)} disabled={loadingAction !== null}>{t.exportFormats.pdf}</button>
+                                <button className="tertiary" onClick={() => handleExport('markdown', item.final_report!)} disabled={loadingAction !== null}>{t.exportFormats.markdown}</button>
                                 {isCodeMode && <button className="tertiary" onClick={handleDownloadCode} disabled={loadingAction !== null}>{t.downloadCode}</button>}
                                 <button className="tertiary" onClick={saveCurrentDiscussion} disabled={loadingAction !== null || isDiscussionSaved}>
                                   {isDiscussionSaved ? (language === 'zh' ? '討論已儲存' : 'Discussion Saved') : t.saveDiscussion}
@@ -1420,21 +3375,38 @@ Respond ONLY with a JSON object adhering to the provided schema.`;
                        </div>
                   )}
 
-                  {history.length === index + 1 && !isFinished && (
-                     <div className="button-group" style={{ justifyContent: item.execution_results ? 'space-between' : 'flex-end' }}>
-                        {item.execution_results ? (
+                  {roundMetrics(item).length > 0 && (() => {
+                      const totals = sumMetrics(roundMetrics(item), priceTable);
+                      return <div className="round-usage">{t.roundUsage(totals.inputTokens, totals.outputTokens, formatCost(totals.costUsd))}</div>;
+                  })()}
+
+                  {history.length === index + 1 && !isFinished && loadingAction === null && (item.execution_results ? isPlanOverBudget : isExecuteOverBudget) && (
+                     <div className="budget-warning">{t.budgetExceeded}</div>
+                  )}
+
+                  {history.length === index + 1 && !isFinished && !isAutopilotRunning && (
+                     <div className="button-group" style={{ justifyContent: loadingAction === 'execute' ? 'flex-end' : 'space-between' }}>
+                        {loadingAction === 'execute' ? (
+                            <button onClick={handleCancelRound} className="danger">{t.cancelRound}</button>
+                        ) : item.execution_results ? (
                             <>
-                                <button onClick={handleStopDiscussion} className="danger" disabled={loadingAction !== null}>
+                                <button onClick={() => handleStopDiscussion()} className="danger" disabled={loadingAction !== null}>
                                     {t.stopAndSummarize} {loadingAction === 'stop' && <InlineLoader />}
                                 </button>
-                                <button onClick={() => handleProcessRound()} disabled={loadingAction !== null}>
+                                <button onClick={() => handleProcessRound()} disabled={loadingAction !== null || isPlanOverBudget}>
                                     {t.proceedToRound(item.round + 1)} {loadingAction === 'process' && <InlineLoader />}
                                 </button>
                             </>
                         ) : (
-                            <button onClick={handleExecuteRound} disabled={loadingAction !== null}>
-                                {t.executeTasks} {loadingAction === 'execute' && <InlineLoader />}
-                            </button>
+                            <>
+                                <select className="execution-mode-select" value={executionMode} onChange={(e) => setExecutionMode(e.target.value as ExecutionMode)} disabled={loadingAction !== null}>
+                                    <option value="parallel">{t.executionModes.parallel}</option>
+                                    <option value="sequential">{t.executionModes.sequential}</option>
+                                </select>
+                                <button onClick={() => handleExecuteRound()} disabled={loadingAction !== null || isExecuteOverBudget || !isLatestPlanRunnable}>
+                                    {t.executeTasks} {loadingAction === 'execute' && <InlineLoader />}
+                                </button>
+                            </>
                         )}
                      </div>
                   )}
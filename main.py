@@ -1,10 +1,149 @@
-from flask import Flask
+import http.client
+import ipaddress
+import socket
+import time
+from urllib.error import HTTPError, URLError
+from urllib.parse import urlparse
+from urllib.request import HTTPHandler, HTTPRedirectHandler, HTTPSHandler, Request, build_opener
+
+from flask import Flask, jsonify, request
 
 app = Flask(__name__)
 
+# --- URL FETCH PROXY ---
+# Browsers can't read most sites directly (CORS), so the app fetches URLs through here.
+# Only public http(s) addresses are fetched, and only text is returned; the browser
+# extracts the readable article text itself.
+
+FETCH_TIMEOUT_SEC = 15
+MAX_BODY_BYTES = 2 * 1024 * 1024
+CACHE_TTL_SEC = 15 * 60
+CACHE_MAX_ENTRIES = 200
+TEXT_TYPES = ('text/', 'application/xhtml+xml', 'application/xml', 'application/json')
+USER_AGENT = 'Mozilla/5.0 (compatible; MultiLLMCollaboration/1.0; +url-fetch-proxy)'
+
+_cache = {}
+
+
+def _is_global(address):
+    return ipaddress.ip_address(address).is_global
+
+
+def _is_public_url(url):
+    parsed = urlparse(url)
+    if parsed.scheme not in ('http', 'https') or not parsed.hostname:
+        return False
+    try:
+        addresses = socket.getaddrinfo(parsed.hostname, None)
+    except socket.gaierror:
+        return False
+    return all(_is_global(address[4][0]) for address in addresses)
+
+
+def _connect_public(host, port, timeout):
+    """Resolves `host` once and connects to one of the addresses that were checked.
+
+    Resolving again at connect time would let a DNS-rebinding host answer with a public
+    address for the check and a private one for the connection.
+    """
+    addresses = socket.getaddrinfo(host, port, type=socket.SOCK_STREAM)
+    if not addresses or not all(_is_global(address[4][0]) for address in addresses):
+        raise OSError(f'{host} is not a public address')
+
+    last_error = None
+    for family, type_, proto, _, address in addresses:
+        sock = socket.socket(family, type_, proto)
+        sock.settimeout(timeout)
+        try:
+            sock.connect(address)
+        except OSError as e:
+            sock.close()
+            last_error = e
+            continue
+        if not _is_global(sock.getpeername()[0]):
+            sock.close()
+            raise OSError(f'{host} connected to a non-public address')
+        return sock
+    raise last_error
+
+
+class _PublicHTTPConnection(http.client.HTTPConnection):
+    def connect(self):
+        self.sock = _connect_public(self.host, self.port, FETCH_TIMEOUT_SEC)
+
+
+class _PublicHTTPSConnection(http.client.HTTPSConnection):
+    def connect(self):
+        sock = _connect_public(self.host, self.port, FETCH_TIMEOUT_SEC)
+        # The certificate and SNI are checked against the host name, not the address connected to.
+        self.sock = self._context.wrap_socket(sock, server_hostname=self.host)
+
+
+class _PublicHTTPHandler(HTTPHandler):
+    def http_open(self, req):
+        return self.do_open(_PublicHTTPConnection, req)
+
+
+class _PublicHTTPSHandler(HTTPSHandler):
+    def https_open(self, req):
+        return self.do_open(_PublicHTTPSConnection, req, context=self._context)
+
+
+class _PublicRedirectHandler(HTTPRedirectHandler):
+    """Refuses redirects into private networks, which would otherwise get around the check above."""
+
+    def redirect_request(self, req, fp, code, msg, headers, newurl):
+        if not _is_public_url(newurl):
+            raise URLError(f'redirect to non-public address {newurl}')
+        return super().redirect_request(req, fp, code, msg, headers, newurl)
+
+
+_opener = build_opener(_PublicRedirectHandler, _PublicHTTPHandler, _PublicHTTPSHandler)
+
+
+def _error(message, status):
+    return jsonify(error=message), status
+
+
+@app.route('/api/fetch')
+def fetch_url():
+    url = request.args.get('url', '').strip()
+    if not _is_public_url(url):
+        return _error('Only public http and https addresses can be fetched.', 400)
+
+    cached = _cache.get(url)
+    if cached and time.time() - cached[0] < CACHE_TTL_SEC:
+        return jsonify(cached[1])
+
+    try:
+        with _opener.open(Request(url, headers={'User-Agent': USER_AGENT}), timeout=FETCH_TIMEOUT_SEC) as response:
+            content_type = response.headers.get('Content-Type', '')
+            if not content_type.startswith(TEXT_TYPES):
+                return _error(f'Unsupported content type: {content_type or "unknown"}.', 415)
+            body = response.read(MAX_BODY_BYTES + 1)
+            if len(body) > MAX_BODY_BYTES:
+                return _error('The page is larger than 2 MB.', 413)
+            charset = response.headers.get_content_charset() or 'utf-8'
+            page = {
+                'url': url,
+                'final_url': response.geturl(),
+                'content_type': content_type,
+                'body': body.decode(charset, errors='replace'),
+            }
+    except HTTPError as e:
+        return _error(f'The site answered HTTP {e.code}.', 502)
+    except (URLError, TimeoutError, OSError, ValueError) as e:
+        return _error(f'The site could not be reached: {getattr(e, "reason", e)}.', 502)
+
+    if len(_cache) >= CACHE_MAX_ENTRIES:
+        del _cache[min(_cache, key=lambda key: _cache[key][0])]
+    _cache[url] = (time.time(), page)
+    return jsonify(page)
+
+
 @app.route('/')
 def hello():
     return 'Hello World!'
 
 if __name__ == '__main__':
-    app.run(host='127.0.0.1', port=8080, debug=True)
\ No newline at end of file
+    app.run(host='127.0.0.1', port=8080, debug=True)
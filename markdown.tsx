@@ -0,0 +1,192 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import React from "react";
+import hljs from "highlight.js/lib/common";
+import { lexer, Token, Tokens } from "marked";
+
+// --- MARKDOWN RENDERING ---
+// Model output is Markdown. It is parsed with marked's lexer and the tokens are turned into
+// React elements here, so nothing a model writes is ever injected as HTML: raw HTML shows as
+// text, links only work for http(s) and mailto, and images become links instead of loading.
+// The same tokens drive the HTML used for document exports.
+
+export const parseMarkdown = (text: string): Token[] => lexer(text);
+
+/**
+ * Moves every heading in `text` `levels` deeper, so a response fits under the headings of the
+ * document it is placed in. Code blocks are left alone, which a line-based rewrite would not do.
+ */
+export const nestMarkdown = (text: string, levels: number): string =>
+  parseMarkdown(text).map(token => token.type === 'heading'
+    ? `${'#'.repeat(Math.min((token as Tokens.Heading).depth + levels, 6))} ${(token as Tokens.Heading).text}\n\n`
+    : token.raw).join('').trim();
+
+/** The address a link may open, or undefined for script and data URLs. */
+export const safeHref = (href: string): string | undefined => /^(https?:|mailto:)/i.test(href.trim()) ? href.trim() : undefined;
+
+/**
+ * Highlighted HTML for a code block. highlight.js escapes the code itself and only adds
+ * its own spans, which is what makes this safe to insert.
+ */
+const highlightCode = (code: string, lang?: string): string => {
+  const language = lang?.trim().split(/\s/)[0].toLowerCase();
+  return language && hljs.getLanguage(language)
+    ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+    : hljs.highlightAuto(code).value;
+};
+
+const renderInline = (tokens: Token[] = []): React.ReactNode[] => tokens.map((token, i) => {
+  switch (token.type) {
+    case 'strong': return <strong key={i}>{renderInline((token as Tokens.Strong).tokens)}</strong>;
+    case 'em': return <em key={i}>{renderInline((token as Tokens.Em).tokens)}</em>;
+    case 'del': return <del key={i}>{renderInline((token as Tokens.Del).tokens)}</del>;
+    case 'codespan': return <code key={i}>{(token as Tokens.Codespan).text}</code>;
+    case 'br': return <br key={i} />;
+    case 'link': {
+      const { href, title, tokens: children } = token as Tokens.Link;
+      const url = safeHref(href);
+      return url
+        ? <a key={i} href={url} title={title || undefined} target="_blank" rel="noopener noreferrer">{renderInline(children)}</a>
+        : <span key={i}>{renderInline(children)}</span>;
+    }
+    case 'image': {
+      const { href, text } = token as Tokens.Image;
+      const url = safeHref(href);
+      return url ? <a key={i} href={url} target="_blank" rel="noopener noreferrer">[{text || url}]</a> : <span key={i}>[{text}]</span>;
+    }
+    case 'text': {
+      const { text, tokens: children } = token as Tokens.Text;
+      return children ? <React.Fragment key={i}>{renderInline(children)}</React.Fragment> : <React.Fragment key={i}>{text}</React.Fragment>;
+    }
+    default:
+      // Escapes and raw HTML alike show as the text they contain.
+      return <React.Fragment key={i}>{'text' in token ? token.text : token.raw}</React.Fragment>;
+  }
+});
+
+const renderBlocks = (tokens: Token[]): React.ReactNode[] => tokens.map((token, i) => {
+  switch (token.type) {
+    case 'space':
+    case 'def':
+      return null;
+    case 'heading': {
+      const { depth, tokens: children } = token as Tokens.Heading;
+      // Responses sit under the page's own h2/h3, so their headings start at h4.
+      return React.createElement(`h${Math.min(depth + 3, 6)}`, { key: i }, renderInline(children));
+    }
+    case 'paragraph': return <p key={i}>{renderInline((token as Tokens.Paragraph).tokens)}</p>;
+    case 'blockquote': return <blockquote key={i}>{renderBlocks((token as Tokens.Blockquote).tokens)}</blockquote>;
+    case 'hr': return <hr key={i} />;
+    case 'code': {
+      const { text, lang } = token as Tokens.Code;
+      return <pre key={i} className="code-block"><code className="hljs" dangerouslySetInnerHTML={{ __html: highlightCode(text, lang) }} /></pre>;
+    }
+    case 'list': {
+      const { ordered, start, items } = token as Tokens.List;
+      const children = items.map((item, j) => (
+        <li key={j}>{item.task && <input type="checkbox" checked={!!item.checked} disabled />}{renderBlocks(item.tokens)}</li>
+      ));
+      return ordered ? <ol key={i} start={start === '' ? undefined : start}>{children}</ol> : <ul key={i}>{children}</ul>;
+    }
+    case 'table': {
+      const { header, rows, align } = token as Tokens.Table;
+      const cellStyle = (j: number) => align[j] ? { textAlign: align[j] } : undefined;
+      return (
+        <div key={i} className="table-scroll">
+          <table>
+            <thead><tr>{header.map((cell, j) => <th key={j} style={cellStyle(j)}>{renderInline(cell.tokens)}</th>)}</tr></thead>
+            <tbody>{rows.map((row, r) => <tr key={r}>{row.map((cell, j) => <td key={j} style={cellStyle(j)}>{renderInline(cell.tokens)}</td>)}</tr>)}</tbody>
+          </table>
+        </div>
+      );
+    }
+    case 'text': {
+      // Items of a tight list hold bare text blocks rather than paragraphs.
+      const { text, tokens: children } = token as Tokens.Text;
+      return <React.Fragment key={i}>{children ? renderInline(children) : text}</React.Fragment>;
+    }
+    default:
+      return <p key={i}>{token.raw}</p>;
+  }
+});
+
+/** Renders model output as Markdown, or as the text it was sent as when `raw` is set. */
+export const MarkdownView = ({ text, raw = false }: { text: string; raw?: boolean }) => raw
+  ? <pre className="raw-text"><code>{text}</code></pre>
+  : <div className="markdown">{renderBlocks(parseMarkdown(text))}</div>;
+
+/** Inline Markdown only, for short texts such as key points that sit inside a list item. */
+export const InlineMarkdown = ({ text }: { text: string }) => {
+  const [first, ...rest] = parseMarkdown(text).filter(token => token.type !== 'space');
+  return first?.type === 'paragraph' && rest.length === 0
+    ? <>{renderInline((first as Tokens.Paragraph).tokens)}</>
+    : <div className="markdown">{renderBlocks([first, ...rest].filter(Boolean))}</div>;
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToHtml = (tokens: Token[] = []): string => tokens.map(token => {
+  switch (token.type) {
+    case 'strong': return `<strong>${inlineToHtml((token as Tokens.Strong).tokens)}</strong>`;
+    case 'em': return `<em>${inlineToHtml((token as Tokens.Em).tokens)}</em>`;
+    case 'del': return `<del>${inlineToHtml((token as Tokens.Del).tokens)}</del>`;
+    case 'codespan': return `<code>${escapeHtml((token as Tokens.Codespan).text)}</code>`;
+    case 'br': return '<br>';
+    case 'link': {
+      const { href, tokens: children } = token as Tokens.Link;
+      const url = safeHref(href);
+      return url ? `<a href="${escapeHtml(url)}">${inlineToHtml(children)}</a>` : inlineToHtml(children);
+    }
+    case 'image': {
+      const { href, text } = token as Tokens.Image;
+      return escapeHtml(`[${text || href}]`);
+    }
+    case 'text': {
+      const { text, tokens: children } = token as Tokens.Text;
+      return children ? inlineToHtml(children) : escapeHtml(text);
+    }
+    default:
+      return escapeHtml('text' in token ? token.text : token.raw);
+  }
+}).join('');
+
+const blocksToHtml = (tokens: Token[]): string => tokens.map(token => {
+  switch (token.type) {
+    case 'space':
+    case 'def':
+      return '';
+    case 'heading': {
+      const { depth, tokens: children } = token as Tokens.Heading;
+      return `<h${depth}>${inlineToHtml(children)}</h${depth}>`;
+    }
+    case 'paragraph': return `<p>${inlineToHtml((token as Tokens.Paragraph).tokens)}</p>`;
+    case 'blockquote': return `<blockquote>${blocksToHtml((token as Tokens.Blockquote).tokens)}</blockquote>`;
+    case 'hr': return '<hr>';
+    case 'code': return `<pre><code>${escapeHtml((token as Tokens.Code).text)}</code></pre>`;
+    case 'list': {
+      const { ordered, start, items } = token as Tokens.List;
+      const children = items.map(item => `<li>${item.task ? (item.checked ? '☑ ' : '☐ ') : ''}${blocksToHtml(item.tokens)}</li>`).join('');
+      return ordered ? `<ol${start !== '' && start !== 1 ? ` start="${start}"` : ''}>${children}</ol>` : `<ul>${children}</ul>`;
+    }
+    case 'table': {
+      const { header, rows } = token as Tokens.Table;
+      return `<table border="1"><thead><tr>${header.map(cell => `<th>${inlineToHtml(cell.tokens)}</th>`).join('')}</tr></thead>`
+        + `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${inlineToHtml(cell.tokens)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    }
+    case 'text': {
+      const { text, tokens: children } = token as Tokens.Text;
+      return children ? inlineToHtml(children) : escapeHtml(text);
+    }
+    default:
+      return `<p>${escapeHtml(token.raw)}</p>`;
+  }
+}).join('\n');
+
+/**
+ * The same rendering as MarkdownView, as an HTML string for exports. Everything is escaped,
+ * code blocks are left unhighlighted, and headings keep their Markdown level.
+ */
+export const markdownToHtml = (text: string): string => blocksToHtml(parseMarkdown(text));
@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { ChatMessage, getProvider } from "./providers";
+
+// --- PARTICIPANT MEMORY ---
+
+/** Used for models the registry has no context window for, e.g. custom local ones. */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/** Tokens held back for the model's reply when fitting a thread into its window. */
+const RESPONSE_RESERVE_TOKENS = 2048;
+
+const CJK_CHARACTERS = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+/**
+ * Rough, provider-independent token count: about four characters per token for
+ * alphabetic text, but roughly one per character for Chinese, Japanese and Korean.
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = text.match(CJK_CHARACTERS)?.length || 0;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+};
+
+export const getContextWindow = (provider: string, model: string): number =>
+  getProvider(provider)?.contextWindows?.[model] || DEFAULT_CONTEXT_WINDOW;
+
+export interface ParticipantThread {
+  messages: ChatMessage[];
+  /** Earlier prompt/reply pairs kept in the thread. */
+  turns: number;
+  /** Oldest pairs dropped so the thread fits the model's context window. */
+  dropped: number;
+}
+
+/**
+ * Fits a participant's earlier prompt/reply pairs into its context window alongside
+ * the text that is always sent (system instruction and the new prompt).
+ * Whole pairs are dropped oldest-first so the thread keeps alternating user/assistant turns.
+ */
+export const fitThread = (pairs: [ChatMessage, ChatMessage][], fixedText: string, contextWindow: number): ParticipantThread => {
+  const budget = contextWindow - RESPONSE_RESERVE_TOKENS - estimateTokens(fixedText);
+  const pairTokens = pairs.map(([prompt, reply]) => estimateTokens(prompt.content) + estimateTokens(reply.content));
+  let used = pairTokens.reduce((sum, n) => sum + n, 0);
+  let dropped = 0;
+  while (dropped < pairs.length && used > budget) {
+    used -= pairTokens[dropped];
+    dropped++;
+  }
+  const kept = pairs.slice(dropped);
+  return { messages: kept.flat(), turns: kept.length, dropped };
+};
@@ -0,0 +1,80 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+// --- DISCUSSION PROTOCOLS ---
+// A protocol fixes how the coordinator plans rounds and lays out the final report.
+// The instructions are English like the rest of the coordinator prompt; the language
+// requirement there still decides what language the output is in.
+
+export type ProtocolId = 'open' | 'oxford' | 'delphi' | 'six_hats' | 'red_blue';
+
+export interface DiscussionProtocol {
+  id: ProtocolId;
+  name: { en: string; zh: string };
+  description: { en: string; zh: string };
+  /** Added to the coordinator's instructions whenever it plans a round. */
+  planning: string;
+  /** Added whenever the coordinator writes the final report. */
+  report: string;
+  /** Participants see each other's answers without names, and the coordinator keeps it that way. */
+  anonymous?: boolean;
+}
+
+export const DISCUSSION_PROTOCOLS: DiscussionProtocol[] = [
+  {
+    id: 'open',
+    name: { en: "Open discussion", zh: "開放討論" },
+    description: {
+      en: "Free-form rounds; the coordinator decides what each participant works on.",
+      zh: "自由形式的回合，由協調者決定每位參與者的任務。",
+    },
+    planning: "",
+    report: "",
+  },
+  {
+    id: 'oxford',
+    name: { en: "Oxford debate", zh: "牛津式辯論" },
+    description: {
+      en: "Participants split into proposition and opposition teams arguing a motion.",
+      zh: "參與者分為正方與反方，針對一項動議進行辯論。",
+    },
+    planning: `Run the discussion as an OXFORD DEBATE. In the first round, state a clear motion derived from the topic and split the participants into a PROPOSITION team (for the motion) and an OPPOSITION team (against it), as evenly as possible. Keep the teams fixed for the whole debate and name each participant's team at the start of its role. Round 1 is opening statements, middle rounds are rebuttals that must answer the other team's strongest points, and the last round is closing statements. Do not let a participant switch sides.`,
+    report: `Lay out the final report as an Oxford debate result. doc_outline and doc_body_blocks MUST use exactly these sections in order: "Motion", "Case for the Proposition", "Case for the Opposition", "Key Clashes", "Verdict". The consensus field states which side made the stronger case and why.`,
+  },
+  {
+    id: 'delphi',
+    name: { en: "Delphi method", zh: "德爾菲法" },
+    description: {
+      en: "Anonymous panelists give estimates, see the group's answers and revise over rounds.",
+      zh: "匿名專家提出估計，參考群體結果後逐回合修正。",
+    },
+    planning: `Run the discussion with the DELPHI METHOD. Every round, ask each participant the same questions and require an explicit estimate (a number, range or probability) plus brief reasoning for each. From round 2 on, include in every prompt an anonymous summary of the previous round: the median and range of the estimates and the main arguments, referring to participants only as "Panelist A", "Panelist B" and so on, never by provider, model or role. Ask each participant to revise or defend its estimate in light of the group. Stop once estimates have converged.`,
+    report: `Lay out the final report as a Delphi study. doc_outline and doc_body_blocks MUST use exactly these sections in order: "Questions", "Final Estimates" (median and range per question), "Convergence Across Rounds", "Remaining Disagreement". Refer to panelists anonymously.`,
+    anonymous: true,
+  },
+  {
+    id: 'six_hats',
+    name: { en: "Six Thinking Hats", zh: "六頂思考帽" },
+    description: {
+      en: "Each round assigns thinking hats: facts, feelings, caution, benefits, creativity and process.",
+      zh: "每回合分派思考帽：事實、感受、謹慎、效益、創意與流程。",
+    },
+    planning: `Run the discussion with SIX THINKING HATS. Every round, give each participant one hat and make the hat the first words of its role: WHITE HAT (facts and missing information), RED HAT (intuition and feelings), BLACK HAT (risks and caution), YELLOW HAT (benefits and value), GREEN HAT (creative alternatives), BLUE HAT (process and synthesis). Rotate the hats between rounds so every participant wears different hats over the discussion, and make sure all six hats are covered across the rounds. Prompts must keep the participant strictly within its hat's mode of thinking.`,
+    report: `Lay out the final report by thinking hat. doc_outline and doc_body_blocks MUST use exactly these sections in order: "White Hat: Facts", "Red Hat: Feelings", "Black Hat: Risks", "Yellow Hat: Benefits", "Green Hat: Alternatives", "Blue Hat: Conclusions and Next Steps".`,
+  },
+  {
+    id: 'red_blue',
+    name: { en: "Red team vs. blue team", zh: "紅隊對藍隊" },
+    description: {
+      en: "A red team attacks the proposal while a blue team defends and hardens it.",
+      zh: "紅隊攻擊提案，藍隊防守並加以強化。",
+    },
+    planning: `Run the discussion as a RED TEAM vs. BLUE TEAM exercise. In the first round, state the proposal, plan or system under test and split the participants into a RED TEAM (finds weaknesses, failure modes and attacks) and a BLUE TEAM (defends, mitigates and hardens). Keep the teams fixed and name each participant's team at the start of its role. Each round, red team prompts must target the defenses the blue team proposed in the previous round, and blue team prompts must answer the red team's latest findings.`,
+    report: `Lay out the final report as a red team assessment. doc_outline and doc_body_blocks MUST use exactly these sections in order: "Scope", "Red Team Findings", "Blue Team Mitigations", "Residual Risks", "Recommendations".`,
+  },
+];
+
+export const getProtocol = (id: ProtocolId | undefined): DiscussionProtocol =>
+  DISCUSSION_PROTOCOLS.find(p => p.id === id) || DISCUSSION_PROTOCOLS[0];
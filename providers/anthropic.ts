@@ -0,0 +1,92 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { postEventStream, postJson } from "./http";
+import { GenerateRequest, GenerateResult, HttpRequest, ImageInput, ProviderAdapter, ProviderError, TokenUsage } from "./types";
+
+// Anthropic has no JSON mode, so structured output goes through a single forced tool call.
+// Images go before the text, which is where Anthropic recommends putting them.
+const buildContent = (prompt: string, images: ImageInput[]) => images.length === 0 ? prompt : [
+  ...images.map(({ mimeType, data }) => ({ type: 'image', source: { type: 'base64', media_type: mimeType, data } })),
+  { type: 'text', text: prompt },
+];
+
+const buildRequest = ({ apiKey, model, systemInstruction, history = [], prompt, images = [], onChunk, responseSchema }: GenerateRequest): HttpRequest => ({
+  url: 'https://api.anthropic.com/v1/messages',
+  headers: {
+    'x-api-key': apiKey,
+    'anthropic-version': '2023-06-01',
+    'content-type': 'application/json'
+  },
+  body: {
+    model,
+    system: systemInstruction,
+    messages: [...history, { role: 'user', content: buildContent(prompt, images) }],
+    max_tokens: 4096,
+    stream: !!onChunk,
+    ...(responseSchema && {
+      tools: [{ name: responseSchema.name, description: 'Submit the structured response.', input_schema: responseSchema.schema }],
+      tool_choice: { type: 'tool', name: responseSchema.name },
+    }),
+  },
+});
+
+const parseUsage = (usage: any): TokenUsage | undefined => usage && {
+  inputTokens: usage.input_tokens || 0,
+  outputTokens: usage.output_tokens || 0,
+};
+
+const parseResponse = (data: any): GenerateResult => {
+  const usage = parseUsage(data.usage);
+  const toolUse = data.content?.find((block: any) => block.type === 'tool_use');
+  if (toolUse) return { text: JSON.stringify(toolUse.input), usage };
+  return { text: data.content?.[0]?.text || '', usage };
+};
+
+/** Extracts the text delta from one Anthropic SSE event; other event types carry no text. */
+const parseStreamEvent = (event: any): string => {
+  if (event.type === 'error') {
+    throw new ProviderError('Anthropic', 500, `Anthropic API error: ${event.error?.message || 'stream error'}`);
+  }
+  return event.type === 'content_block_delta' ? event.delta?.text || '' : '';
+};
+
+const mapError = (status: number, statusText: string, body: string) =>
+  new ProviderError('Anthropic', status, `Anthropic API error: ${status} ${statusText} - ${body}`);
+
+export const anthropicAdapter: ProviderAdapter = {
+  name: 'Anthropic',
+  models: ["claude-3-5-sonnet", "claude-3-opus", "claude-3-haiku"],
+  capabilities: {
+    en: "Safety-focused, analytical thinking, ethical reasoning",
+    zh: "安全導向、分析思維、倫理推理",
+  },
+  visionModels: ["claude-3-5-sonnet", "claude-3-opus", "claude-3-haiku"],
+  contextWindows: {
+    "claude-3-5-sonnet": 200000,
+    "claude-3-opus": 200000,
+    "claude-3-haiku": 200000,
+  },
+  prices: {
+    "claude-3-5-sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+    "claude-3-opus": { inputPerMillion: 15, outputPerMillion: 75 },
+    "claude-3-haiku": { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  },
+  generate: async (request) => {
+    const { onChunk, signal } = request;
+    if (!onChunk) return parseResponse(await postJson(buildRequest(request), mapError, signal));
+    let text = '';
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    await postEventStream(buildRequest(request), mapError, event => {
+      // Input tokens arrive with message_start, the output total with message_delta.
+      if (event.type === 'message_start') usage.inputTokens = event.message?.usage?.input_tokens || 0;
+      if (event.type === 'message_delta') usage.outputTokens = event.usage?.output_tokens || 0;
+      const delta = parseStreamEvent(event);
+      text += delta;
+      if (delta) onChunk(delta);
+    }, signal);
+    return { text, usage };
+  },
+};
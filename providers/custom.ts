@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { createOpenAICompatibleAdapter } from "./openaiCompatible";
+import { ProviderAdapter } from "./types";
+
+/** A user-registered OpenAI-compatible server such as Ollama, vLLM or LM Studio. */
+export interface CustomProviderConfig {
+  name: string;
+  /** Base URL up to and including the API version, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  models: string[];
+  capabilities: string;
+}
+
+export const createCustomAdapter = ({ name, baseUrl, models, capabilities }: CustomProviderConfig): ProviderAdapter =>
+  createOpenAICompatibleAdapter({
+    name,
+    endpoint: `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`,
+    models,
+    capabilities: { en: capabilities, zh: capabilities },
+    requiresApiKey: false,
+  });
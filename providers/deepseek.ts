@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { createOpenAICompatibleAdapter } from "./openaiCompatible";
+
+export const deepSeekAdapter = createOpenAICompatibleAdapter({
+  name: 'DeepSeek',
+  endpoint: 'https://api.deepseek.com/chat/completions',
+  models: ["deepseek-chat", "deepseek-coder"],
+  capabilities: {
+    en: "Mathematical reasoning, coding expertise, research-oriented",
+    zh: "數學推理、編程專長、研究導向",
+  },
+  contextWindows: {
+    "deepseek-chat": 64000,
+    "deepseek-coder": 64000,
+  },
+  prices: {
+    "deepseek-chat": { inputPerMillion: 0.27, outputPerMillion: 1.1 },
+    "deepseek-coder": { inputPerMillion: 0.27, outputPerMillion: 1.1 },
+  },
+  streamUsage: true,
+});
@@ -0,0 +1,77 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { ApiError, GenerateContentParameters, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { GenerateRequest, GenerateResult, ProviderAdapter, ProviderError, TokenUsage } from "./types";
+
+const buildRequest = ({ model, systemInstruction, history = [], prompt, images = [], signal, responseSchema }: GenerateRequest): GenerateContentParameters => ({
+  model,
+  contents: [
+    ...history.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+    { role: 'user', parts: [{ text: prompt }, ...images.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } }))] },
+  ],
+  config: {
+    systemInstruction,
+    abortSignal: signal,
+    ...(responseSchema && { responseMimeType: 'application/json', responseJsonSchema: responseSchema.schema }),
+  },
+});
+
+// Thinking tokens are billed as output, so they count toward it.
+const parseUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => metadata && {
+  inputTokens: metadata.promptTokenCount || 0,
+  outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+};
+
+const parseResponse = (response: GenerateContentResponse): GenerateResult => ({
+  text: response.text || '',
+  usage: parseUsage(response.usageMetadata),
+});
+
+const mapError = (e: unknown): Error => {
+  if (e instanceof ApiError) {
+    return new ProviderError('Google', e.status, `Google API error: ${e.status} - ${e.message}`);
+  }
+  return e instanceof Error ? e : new Error(String(e));
+};
+
+export const googleAdapter: ProviderAdapter = {
+  name: 'Google',
+  models: ["gemini-2.5-pro", "gemini-2.5-flash"],
+  capabilities: {
+    en: "Advanced reasoning, multimodal analysis, code generation",
+    zh: "進階推理、多模態分析、程式碼生成",
+  },
+  visionModels: ["gemini-2.5-pro", "gemini-2.5-flash"],
+  contextWindows: {
+    "gemini-2.5-pro": 1048576,
+    "gemini-2.5-flash": 1048576,
+  },
+  prices: {
+    "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10 },
+    "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  },
+  generate: async (request) => {
+    const ai = new GoogleGenAI({ apiKey: request.apiKey });
+    try {
+      if (!request.onChunk) {
+        return parseResponse(await ai.models.generateContent(buildRequest(request)));
+      }
+      let text = '';
+      let usage: TokenUsage | undefined;
+      const stream = await ai.models.generateContentStream(buildRequest(request));
+      for await (const chunk of stream) {
+        const parsed = parseResponse(chunk);
+        text += parsed.text;
+        // Each chunk reports the running total, so the last one wins.
+        usage = parsed.usage || usage;
+        request.onChunk(parsed.text);
+      }
+      return { text, usage };
+    } catch (e) {
+      throw mapError(e);
+    }
+  },
+};
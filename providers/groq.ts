@@ -0,0 +1,31 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { createOpenAICompatibleAdapter } from "./openaiCompatible";
+
+export const groqAdapter = createOpenAICompatibleAdapter({
+  name: 'Groq',
+  endpoint: 'https://api.groq.com/openai/v1/chat/completions',
+  models: ["llama3-70b-8192", "llama3-8b-8192", "mixtral-8x7b-32768", "gemma-7b-it", "gemma2-9b-it"],
+  capabilities: {
+    en: "Fast inference, efficient processing, lightweight tasks",
+    zh: "快速推理、高效處理、輕量任務",
+  },
+  contextWindows: {
+    "llama3-70b-8192": 8192,
+    "llama3-8b-8192": 8192,
+    "mixtral-8x7b-32768": 32768,
+    "gemma-7b-it": 8192,
+    "gemma2-9b-it": 8192,
+  },
+  prices: {
+    "llama3-70b-8192": { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+    "llama3-8b-8192": { inputPerMillion: 0.05, outputPerMillion: 0.08 },
+    "mixtral-8x7b-32768": { inputPerMillion: 0.24, outputPerMillion: 0.24 },
+    "gemma-7b-it": { inputPerMillion: 0.07, outputPerMillion: 0.07 },
+    "gemma2-9b-it": { inputPerMillion: 0.2, outputPerMillion: 0.2 },
+  },
+  streamUsage: true,
+});
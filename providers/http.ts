@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { HttpRequest, ProviderError } from "./types";
+
+export type HttpErrorMapper = (status: number, statusText: string, body: string) => Error;
+
+/** `Retry-After` is either a number of seconds or an HTTP date. */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const send = async (request: HttpRequest, mapError: HttpErrorMapper, signal?: AbortSignal): Promise<Response> => {
+  const res = await fetch(request.url, {
+    method: 'POST',
+    headers: request.headers,
+    body: JSON.stringify(request.body),
+    signal,
+  });
+  if (!res.ok) {
+    const errorBody = await res.text();
+    const error = mapError(res.status, res.statusText, errorBody);
+    if (error instanceof ProviderError) {
+      error.retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+    }
+    throw error;
+  }
+  return res;
+};
+
+/**
+ * Sends a JSON POST built by an adapter and returns the parsed body.
+ * Non-2xx responses are handed to the adapter's error mapper.
+ */
+export const postJson = async (request: HttpRequest, mapError: HttpErrorMapper, signal?: AbortSignal): Promise<any> => {
+  const res = await send(request, mapError, signal);
+  return res.json();
+};
+
+/**
+ * Sends a JSON POST and reads the response as server-sent events,
+ * passing each parsed `data:` payload to `onEvent` until the stream ends.
+ */
+export const postEventStream = async (request: HttpRequest, mapError: HttpErrorMapper, onEvent: (data: any) => void, signal?: AbortSignal): Promise<void> => {
+  const res = await send(request, mapError, signal);
+  if (!res.body) throw new Error('Streaming response has no body.');
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const flushLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return;
+    const data = trimmed.slice(5).trim();
+    if (data && data !== '[DONE]') onEvent(JSON.parse(data));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(flushLine);
+  }
+  flushLine(buffer + decoder.decode());
+};
@@ -0,0 +1,27 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { ModelPrice, ProviderAdapter, ProviderError } from "./types";
+
+// --- HUMAN PARTICIPANTS ---
+// People sit in the registry like any other provider, one "model" per name, so the
+// setup step, role assignment and coordinator planning treat them the same way.
+// Their answers are typed into the round view, never fetched.
+
+export const HUMAN_PROVIDER = 'Human';
+
+export const createHumanAdapter = (names: string[]): ProviderAdapter => ({
+  name: HUMAN_PROVIDER,
+  models: names,
+  capabilities: {
+    en: "A person in the discussion who answers in the app; brings first-hand context, judgment and domain knowledge",
+    zh: "在應用程式中作答的真人參與者；提供第一手背景、判斷與領域知識",
+  },
+  prices: Object.fromEntries(names.map((name): [string, ModelPrice] => [name, { inputPerMillion: 0, outputPerMillion: 0 }])),
+  requiresApiKey: false,
+  generate: async () => {
+    throw new ProviderError(HUMAN_PROVIDER, 0, 'Human participants answer in the round view, not through a provider call.');
+  },
+});
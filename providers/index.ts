@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { anthropicAdapter } from "./anthropic";
+import { createCustomAdapter, CustomProviderConfig } from "./custom";
+import { deepSeekAdapter } from "./deepseek";
+import { googleAdapter } from "./google";
+import { groqAdapter } from "./groq";
+import { createHumanAdapter, HUMAN_PROVIDER } from "./human";
+import { mistralAdapter } from "./mistral";
+import { mockAdapter } from "./mock";
+import { openAIAdapter } from "./openai";
+import { openEvidenceAdapter } from "./openevidence";
+import { ProviderAdapter } from "./types";
+
+export * from "./types";
+export { withRetry } from "./retry";
+export type { CustomProviderConfig } from "./custom";
+export { HUMAN_PROVIDER } from "./human";
+export { createReplaySession, parseFixtureFile, withRecording } from "./replay";
+export type { FixtureEntry, FixtureFile, ReplaySession } from "./replay";
+
+// --- PROVIDER REGISTRY ---
+// Order here is the order providers appear in the setup step.
+const PROVIDERS: ProviderAdapter[] = [
+  googleAdapter,
+  openAIAdapter,
+  anthropicAdapter,
+  groqAdapter,
+  mistralAdapter,
+  deepSeekAdapter,
+  openEvidenceAdapter,
+  mockAdapter,
+];
+
+const registry = new Map<string, ProviderAdapter>(PROVIDERS.map(adapter => [adapter.name, adapter]));
+const customNames = new Set<string>();
+
+export const listProviders = (): ProviderAdapter[] => Array.from(registry.values());
+
+export const getProvider = (name: string): ProviderAdapter | undefined => registry.get(name);
+
+/** Whether `model` accepts images in the prompt; models without vision get text descriptions. */
+export const supportsVision = (provider: string, model: string): boolean =>
+  !!getProvider(provider)?.visionModels?.includes(model);
+
+export const isBuiltInProvider = (name: string): boolean =>
+  name === HUMAN_PROVIDER || PROVIDERS.some(adapter => adapter.name === name);
+
+/**
+ * Replaces every custom provider in the registry with `configs`.
+ * Configs whose name clashes with a built-in provider are ignored.
+ */
+export const setCustomProviders = (configs: CustomProviderConfig[]) => {
+  customNames.forEach(name => registry.delete(name));
+  customNames.clear();
+  configs.filter(config => !isBuiltInProvider(config.name)).forEach(config => {
+    registry.set(config.name, createCustomAdapter(config));
+    customNames.add(config.name);
+  });
+};
+
+/** Registers the people taking part as the "Human" provider, or removes it when there are none. */
+export const setHumanParticipants = (names: string[]) => {
+  registry.delete(HUMAN_PROVIDER);
+  if (names.length > 0) registry.set(HUMAN_PROVIDER, createHumanAdapter(names));
+};
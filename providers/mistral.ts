@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { createOpenAICompatibleAdapter } from "./openaiCompatible";
+
+export const mistralAdapter = createOpenAICompatibleAdapter({
+  name: 'Mistral',
+  endpoint: 'https://api.mistral.ai/v1/chat/completions',
+  models: ["mistral-large-latest", "mistral-small-latest", "open-mixtral-8x7b", "open-mistral-7b", "codestral-latest"],
+  capabilities: {
+    en: "Multilingual, code-focused, European AI perspective",
+    zh: "多語言、程式導向、歐洲AI視角",
+  },
+  contextWindows: {
+    "mistral-large-latest": 128000,
+    "mistral-small-latest": 32000,
+    "open-mixtral-8x7b": 32000,
+    "open-mistral-7b": 32000,
+    "codestral-latest": 32000,
+  },
+  prices: {
+    "mistral-large-latest": { inputPerMillion: 2, outputPerMillion: 6 },
+    "mistral-small-latest": { inputPerMillion: 0.2, outputPerMillion: 0.6 },
+    "open-mixtral-8x7b": { inputPerMillion: 0.7, outputPerMillion: 0.7 },
+    "open-mistral-7b": { inputPerMillion: 0.25, outputPerMillion: 0.25 },
+    "codestral-latest": { inputPerMillion: 0.3, outputPerMillion: 0.9 },
+  },
+});
@@ -0,0 +1,157 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { GenerateRequest, GenerateResult, JsonSchema, ProviderAdapter, TokenUsage } from "./types";
+
+// --- MOCK PROVIDER ---
+// Deterministic, network-free stand-in for participants and the coordinator.
+// The coordinator replies are derived from the prompts index.tsx builds, so the
+// participant-line formats below must stay in step with them.
+
+// Human seats are named by people, so the model part may contain spaces.
+const PLAN_PARTICIPANT_LINE = /^- ([^/\n]+)\/(.+?) \(Role: (.*)\)$/gm;
+const CLARIFY_PARTICIPANT_LINE = /^- ([^/\n]+)\/(.+?): (.*)$/gm;
+
+interface Participant {
+  provider: string;
+  model: string;
+  role: string;
+}
+
+const parseParticipants = (prompt: string, pattern: RegExp): Participant[] =>
+  Array.from(prompt.matchAll(pattern)).map(([, provider, model, role]) => ({ provider, model, role }));
+
+/** Rough token count so usage and cost panels have something to show. */
+const estimateUsage = (input: string, output: string): TokenUsage => ({
+  inputTokens: Math.ceil(input.length / 4),
+  outputTokens: Math.ceil(output.length / 4),
+});
+
+/** Builds the smallest value that satisfies `schema`, for structured requests the mock doesn't script. */
+export const sampleFromSchema = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)]));
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items)] : [];
+    case 'integer':
+    case 'number':
+      return 1;
+    case 'boolean':
+      return true;
+    default:
+      return schema.enum?.[0] ?? 'mock';
+  }
+};
+
+const scriptClarifications = (prompt: string) => ({
+  clarifications: parseParticipants(prompt, CLARIFY_PARTICIPANT_LINE).map(({ provider, model, role }) => ({
+    provider, model, original_role: role,
+    clarified_tasks: `- Analyze the topic from the perspective of a ${role}\n- Raise the two most important risks\n- Propose one concrete recommendation`,
+    thinking_style: `Structured and pragmatic, as a ${role} would be.`,
+  })),
+});
+
+const scriptRoundPlan = (prompt: string) => {
+  const completedRounds = (prompt.match(/^--- Round \d+ Summary ---$/gm) || []).length;
+  const round = completedRounds + 1;
+  const isStopping = /decided to stop the discussion/.test(prompt);
+  const participants = parseParticipants(prompt, PLAN_PARTICIPANT_LINE);
+  // Cites the latest round, the one the report is written after.
+  const cite = ({ provider, model }: Participant) => completedRounds > 0 ? [{ round: completedRounds, provider, model }] : [];
+  return {
+    round_plan: {
+      calls: isStopping ? [] : participants.map(({ provider, model, role }) => ({
+        provider, model, role,
+        prompt: `Round ${round}: as the ${role}, give your position on the topic and respond to the points raised so far.`,
+        timeout_sec: 60,
+      })),
+      stop_condition: isStopping ? 'consensus_formed' : 'continue',
+    },
+    debate_summary: completedRounds === 0
+      ? 'Mock coordinator: opening round. Each participant states an initial position.'
+      : `Mock coordinator: ${participants.length} participants have contributed through round ${completedRounds}.`,
+    ...(isStopping && {
+      final_if_stopped: {
+        consensus: 'Mock consensus: participants agree on a phased, low-risk approach.',
+        bullet_summary: participants.map(participant => ({ point: `${participant.role}: supports the phased approach.`, sources: cite(participant) })),
+        doc_outline: ['Background', 'Recommendation'],
+        doc_body_blocks: [
+          { heading: 'Background', content: 'Scripted background section from the mock coordinator.', sources: [] },
+          { heading: 'Recommendation', content: 'Scripted recommendation from the mock coordinator.', sources: participants.flatMap(cite) },
+        ],
+      },
+    }),
+  };
+};
+
+const scriptClaims = (systemInstruction: string) => {
+  const role = systemInstruction.match(/Your role is: (.*?)\.\n/)?.[1] || 'Participant';
+  return {
+    claims: [
+      { statement: `From the ${role} perspective, a phased rollout is the safest option.`, evidence: ['Scripted evidence from the Mock provider.'], confidence: 0.8 },
+      { statement: 'The main risk is underestimating the migration effort.', evidence: [], confidence: 0.5 },
+    ],
+    assumptions: ['The current system stays available during the change.'],
+    open_questions: ['What is the deadline?'],
+  };
+};
+
+const RESPONSE_HEADER = /^\[([^/\n]+)\/(\S+) RESPONSE\]:$/gm;
+
+/** Everyone agrees on the first question and splits down the middle on the second, so the meter has something to show. */
+const scriptPositions = (prompt: string) => {
+  const responders = Array.from(prompt.matchAll(RESPONSE_HEADER)).map(([, provider, model]) => ({ provider, model }));
+  return {
+    key_questions: [
+      { question: 'Should the change be rolled out in phases?', positions: responders.map(r => ({ ...r, position: 'Yes, in phases' })) },
+      { question: 'What is the biggest risk?', positions: responders.map((r, i) => ({ ...r, position: i % 2 === 0 ? 'Migration effort' : 'User adoption' })) },
+    ],
+  };
+};
+
+const scriptStructured = ({ systemInstruction, prompt, responseSchema }: GenerateRequest): unknown => {
+  switch (responseSchema?.name) {
+    case 'submit_role_clarifications': return scriptClarifications(prompt);
+    case 'submit_round_plan': return scriptRoundPlan(prompt);
+    case 'submit_claims': return scriptClaims(systemInstruction);
+    case 'submit_positions': return scriptPositions(prompt);
+    default: return responseSchema ? sampleFromSchema(responseSchema.schema) : null;
+  }
+};
+
+const scriptText = ({ model, systemInstruction, prompt, images = [] }: GenerateRequest): string => {
+  const role = systemInstruction.match(/Your role is: (.*?)\.\n/)?.[1] || 'Participant';
+  const gist = prompt.split('\n').find(line => line.trim())?.slice(0, 200) || '';
+  const seen = images.length > 0 ? ` (with ${images.length} image${images.length > 1 ? 's' : ''})` : '';
+  return `${role} (${model}) responding to: ${gist}${seen}\n\nThis is a scripted response from the Mock provider. It is the same every time for the same prompt, so rounds can be demoed and regression-tested offline.`;
+};
+
+/** Emits `text` word by word so streaming UI paths get exercised too. */
+export const streamText = (text: string, onChunk: (delta: string) => void) => {
+  text.split(/(?<=\s)/).forEach(onChunk);
+};
+
+const generate = async (request: GenerateRequest): Promise<GenerateResult> => {
+  if (request.signal?.aborted) throw request.signal.reason;
+  const text = request.responseSchema ? JSON.stringify(scriptStructured(request)) : scriptText(request);
+  if (request.onChunk) streamText(text, request.onChunk);
+  const input = [request.systemInstruction, ...(request.history || []).map(m => m.content), request.prompt].join('\n');
+  return { text, usage: estimateUsage(input, text) };
+};
+
+export const mockAdapter: ProviderAdapter = {
+  name: 'Mock',
+  models: ["mock-scripted"],
+  capabilities: {
+    en: "Offline scripted responses for demos, development and tests",
+    zh: "離線腳本回應，用於展示、開發與測試",
+  },
+  // Deliberately small so long discussions exercise thread truncation.
+  contextWindows: { "mock-scripted": 8192 },
+  visionModels: ["mock-scripted"],
+  requiresApiKey: false,
+  generate,
+};
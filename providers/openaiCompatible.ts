@@ -0,0 +1,103 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { postEventStream, postJson } from "./http";
+import { GenerateRequest, GenerateResult, HttpRequest, ImageInput, ModelPrice, ProviderAdapter, ProviderCapabilities, ProviderError, StructuredOutput, TokenUsage } from "./types";
+
+interface OpenAICompatibleOptions {
+  name: string;
+  endpoint: string;
+  models: string[];
+  capabilities: ProviderCapabilities;
+  contextWindows?: Record<string, number>;
+  prices?: Record<string, ModelPrice>;
+  visionModels?: string[];
+  /**
+   * How structured output is requested. `json_schema` passes the schema natively;
+   * `json_object` (the default, since most compatible APIs only support that) puts it in the system prompt.
+   */
+  jsonMode?: 'json_schema' | 'json_object';
+  requiresApiKey?: boolean;
+  /** Whether the API accepts `stream_options.include_usage`; without it, streamed calls may report no usage. */
+  streamUsage?: boolean;
+}
+
+/**
+ * Builds an adapter for any provider that speaks the OpenAI chat completions protocol.
+ * Only the endpoint, model list and capability blurb differ between them.
+ */
+export const createOpenAICompatibleAdapter = ({ name, endpoint, models, capabilities, contextWindows, prices, visionModels, jsonMode = 'json_object', requiresApiKey = true, streamUsage = false }: OpenAICompatibleOptions): ProviderAdapter => {
+  const buildResponseFormat = ({ name: schemaName, schema }: StructuredOutput) => jsonMode === 'json_schema'
+    ? { type: 'json_schema', json_schema: { name: schemaName, schema } }
+    : { type: 'json_object' };
+
+  const buildContent = (prompt: string, images: ImageInput[]) => images.length === 0 ? prompt : [
+    { type: 'text', text: prompt },
+    ...images.map(({ mimeType, data }) => ({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } })),
+  ];
+
+  const buildRequest = ({ apiKey, model, systemInstruction, history = [], prompt, images = [], onChunk, responseSchema }: GenerateRequest): HttpRequest => ({
+    url: endpoint,
+    headers: {
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      'Content-Type': 'application/json'
+    },
+    body: {
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: responseSchema && jsonMode === 'json_object'
+            ? `${systemInstruction}\n\nRespond with a single JSON object matching this JSON Schema:\n${JSON.stringify(responseSchema.schema)}`
+            : systemInstruction,
+        },
+        ...history,
+        { role: 'user', content: buildContent(prompt, images) }
+      ],
+      stream: !!onChunk,
+      ...(onChunk && streamUsage && { stream_options: { include_usage: true } }),
+      ...(responseSchema && { response_format: buildResponseFormat(responseSchema) }),
+    },
+  });
+
+  const parseUsage = (usage: any): TokenUsage | undefined => usage && {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0,
+  };
+
+  const parseResponse = (data: any): GenerateResult => ({
+    text: data.choices?.[0]?.message?.content || '',
+    usage: parseUsage(data.usage),
+  });
+
+  const parseStreamEvent = (event: any): string => event.choices?.[0]?.delta?.content || '';
+
+  const mapError = (status: number, statusText: string, body: string) =>
+    new ProviderError(name, status, `${name} API error: ${status} ${statusText} - ${body}`);
+
+  return {
+    name,
+    models,
+    capabilities,
+    contextWindows,
+    prices,
+    visionModels,
+    requiresApiKey,
+    generate: async (request) => {
+      const { onChunk, signal } = request;
+      if (!onChunk) return parseResponse(await postJson(buildRequest(request), mapError, signal));
+      let text = '';
+      let usage: TokenUsage | undefined;
+      await postEventStream(buildRequest(request), mapError, event => {
+        // Usage, when sent, rides on the final chunk.
+        usage = parseUsage(event.usage) || usage;
+        const delta = parseStreamEvent(event);
+        text += delta;
+        if (delta) onChunk(delta);
+      }, signal);
+      return { text, usage };
+    },
+  };
+};
@@ -0,0 +1,16 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { createOpenAICompatibleAdapter } from "./openaiCompatible";
+
+export const openEvidenceAdapter = createOpenAICompatibleAdapter({
+  name: 'OpenEvidence',
+  endpoint: 'https://api.openevidence.com/v1/chat/completions',
+  models: ["open-evidence-v1"],
+  capabilities: {
+    en: "Evidence-based analysis, scientific reasoning",
+    zh: "證據分析、科學推理",
+  },
+});
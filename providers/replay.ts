@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { streamText } from "./mock";
+import { ChatMessage, GenerateRequest, GenerateResult, ProviderAdapter } from "./types";
+
+// --- RECORD & REPLAY ---
+
+export interface FixtureEntry {
+  provider: string;
+  model: string;
+  /** Fingerprint of the request, used to find the matching response on replay. */
+  key: string;
+  request: { systemInstruction: string; history?: ChatMessage[]; prompt: string; responseSchema?: string };
+  response: GenerateResult;
+}
+
+export interface FixtureFile {
+  version: 1;
+  recorded_at: string;
+  entries: FixtureEntry[];
+}
+
+/** FNV-1a over the parts of a request that determine its response. */
+const fingerprint = (provider: string, model: string, { systemInstruction, history = [], prompt, responseSchema }: GenerateRequest): string => {
+  const input = JSON.stringify([provider, model, systemInstruction, history, prompt, responseSchema?.name || null]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Wraps `adapter` so every successful call is also handed to `onRecord`. */
+export const withRecording = (adapter: ProviderAdapter, onRecord: (entry: FixtureEntry) => void): ProviderAdapter => ({
+  ...adapter,
+  generate: async (request) => {
+    const response = await adapter.generate(request);
+    onRecord({
+      provider: adapter.name,
+      model: request.model,
+      key: fingerprint(adapter.name, request.model, request),
+      request: { systemInstruction: request.systemInstruction, history: request.history, prompt: request.prompt, responseSchema: request.responseSchema?.name },
+      response,
+    });
+    return response;
+  },
+});
+
+export const parseFixtureFile = (json: string): FixtureFile => {
+  const parsed = JSON.parse(json);
+  if (parsed?.version !== 1 || !Array.isArray(parsed.entries)) {
+    throw new Error('Not a recorded fixture file.');
+  }
+  return parsed;
+};
+
+/**
+ * Plays a fixture back. Each request gets the recorded response with the same
+ * fingerprint; failing that, the next unused response for the same provider/model,
+ * so small prompt changes don't break a whole replay.
+ */
+export const createReplaySession = (fixture: FixtureFile) => {
+  const used = new Set<FixtureEntry>();
+
+  const take = (provider: string, request: GenerateRequest): FixtureEntry | undefined => {
+    const key = fingerprint(provider, request.model, request);
+    const candidates = fixture.entries.filter(e => !used.has(e) && e.provider === provider && e.model === request.model);
+    const entry = candidates.find(e => e.key === key) || candidates[0];
+    if (entry) used.add(entry);
+    return entry;
+  };
+
+  const adapterFor = (base: ProviderAdapter): ProviderAdapter => ({
+    ...base,
+    requiresApiKey: false,
+    generate: async (request) => {
+      if (request.signal?.aborted) throw request.signal.reason;
+      const entry = take(base.name, request);
+      if (!entry) {
+        throw new Error(`No recorded response left for ${base.name}/${request.model}.`);
+      }
+      if (request.onChunk) streamText(entry.response.text, request.onChunk);
+      return entry.response;
+    },
+  });
+
+  return { adapterFor, size: fixture.entries.length };
+};
+
+export type ReplaySession = ReturnType<typeof createReplaySession>;
@@ -0,0 +1,42 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { ProviderError } from "./types";
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: ProviderError) => void;
+}
+
+/** Rate limits and server errors are worth another try; anything else is not. */
+export const isRetryableError = (e: unknown): e is ProviderError =>
+  e instanceof ProviderError && (e.status === 429 || e.status >= 500);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) { reject(signal.reason); return; }
+  const onAbort = () => { clearTimeout(timer); reject(signal?.reason); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `fn`, retrying retryable provider errors with exponential backoff.
+ * A `Retry-After` from the provider takes precedence over the computed delay.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, { maxRetries, baseDelayMs, maxDelayMs = 60000, signal, onRetry }: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (!isRetryableError(e) || attempt >= maxRetries || signal?.aborted) throw e;
+      const delayMs = Math.min(e.retryAfterMs ?? baseDelayMs * 2 ** attempt, maxDelayMs);
+      onRetry?.(attempt + 1, delayMs, e);
+      await sleep(delayMs, signal);
+    }
+  }
+};
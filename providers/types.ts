@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+// --- PROVIDER ADAPTER TYPES ---
+
+/** Short capability blurb per UI language, shown in the setup step and given to the coordinator. */
+export interface ProviderCapabilities {
+  en: string;
+  zh: string;
+}
+
+/** The subset of JSON Schema the coordinator's structured responses need. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+/** Asks the provider for a JSON response matching `schema`, via its native JSON mode or tool calling. */
+export interface StructuredOutput {
+  name: string;
+  schema: JsonSchema;
+}
+
+/** One earlier turn in a participant's own conversation. */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** An image sent alongside the prompt, base64-encoded without the `data:` prefix. */
+export interface ImageInput {
+  mimeType: string;
+  data: string;
+}
+
+export interface GenerateRequest {
+  apiKey: string;
+  model: string;
+  systemInstruction: string;
+  /** Earlier turns of this conversation, oldest first; `prompt` follows them as the newest user turn. */
+  history?: ChatMessage[];
+  prompt: string;
+  /** Sent with `prompt`. Only for models listed in the adapter's `visionModels`. */
+  images?: ImageInput[];
+  /** When set, the adapter streams the response and reports each text delta as it arrives. */
+  onChunk?: (delta: string) => void;
+  /** Aborts the in-flight request, e.g. on timeout or when the user cancels the round. */
+  signal?: AbortSignal;
+  /** When set, the response text is a JSON document matching this schema. Not combined with `onChunk`. */
+  responseSchema?: StructuredOutput;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  /** Token counts as reported by the provider; absent when the provider doesn't report them. */
+  usage?: TokenUsage;
+}
+
+/** List price in USD per million tokens. */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/** A provider-agnostic HTTP call, produced by an adapter's request builder. */
+export interface HttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Everything the app needs to know about one provider: which models it offers,
+ * what it is good at, and how to turn a request into response text.
+ */
+export interface ProviderAdapter {
+  name: string;
+  models: string[];
+  capabilities: ProviderCapabilities;
+  /** Context window per model, in tokens. */
+  contextWindows?: Record<string, number>;
+  /** Default prices per model, used to estimate cost until the user edits them. */
+  prices?: Record<string, ModelPrice>;
+  /** Models that accept images in the prompt; the others get text descriptions instead. */
+  visionModels?: string[];
+  /** False for local and self-hosted endpoints that accept calls without a key. Defaults to true. */
+  requiresApiKey?: boolean;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+}
+
+/** Raised by adapters when a provider rejects a call, so callers can inspect the HTTP status. */
+export class ProviderError extends Error {
+  provider: string;
+  status: number;
+  /** Delay the provider asked for via `Retry-After`, if it sent one. */
+  retryAfterMs?: number;
+
+  constructor(provider: string, status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+import { listProviders, ModelPrice, TokenUsage } from "./providers";
+
+// --- USAGE AND COST ACCOUNTING ---
+
+/** What one provider call cost us: tokens as reported, wall-clock latency including retries. */
+export interface CallMetrics {
+  provider: string;
+  model: string;
+  usage?: TokenUsage;
+  latency_ms?: number;
+}
+
+/** Prices keyed by `provider/model`. */
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  /** Calls whose cost couldn't be estimated because no usage or price was known. */
+  unpricedCalls: number;
+}
+
+export const EMPTY_TOTALS: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, costUsd: 0, unpricedCalls: 0 };
+
+/** Registry defaults overlaid with the user's edits. */
+export const buildPriceTable = (overrides: PriceTable): PriceTable => {
+  const table: PriceTable = {};
+  listProviders().forEach(({ name, prices }) => {
+    Object.entries(prices || {}).forEach(([model, price]) => { table[`${name}/${model}`] = price; });
+  });
+  return { ...table, ...overrides };
+};
+
+export const estimateCost = (metrics: CallMetrics, prices: PriceTable): number | null => {
+  const price = prices[`${metrics.provider}/${metrics.model}`];
+  if (!metrics.usage || !price) return null;
+  return (metrics.usage.inputTokens * price.inputPerMillion + metrics.usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const sumMetrics = (metrics: CallMetrics[], prices: PriceTable): UsageTotals =>
+  metrics.reduce<UsageTotals>((totals, m) => {
+    const cost = estimateCost(m, prices);
+    return {
+      calls: totals.calls + 1,
+      inputTokens: totals.inputTokens + (m.usage?.inputTokens || 0),
+      outputTokens: totals.outputTokens + (m.usage?.outputTokens || 0),
+      latencyMs: totals.latencyMs + (m.latency_ms || 0),
+      costUsd: totals.costUsd + (cost || 0),
+      unpricedCalls: totals.unpricedCalls + (cost === null ? 1 : 0),
+    };
+  }, EMPTY_TOTALS);
+
+/** Groups metrics by `provider/model`, keeping first-seen order. */
+export const groupMetricsByModel = (metrics: CallMetrics[], prices: PriceTable): [string, UsageTotals][] => {
+  const groups = new Map<string, CallMetrics[]>();
+  metrics.forEach(m => {
+    const key = `${m.provider}/${m.model}`;
+    groups.set(key, [...(groups.get(key) || []), m]);
+  });
+  return Array.from(groups.entries()).map(([key, group]) => [key, sumMetrics(group, prices)]);
+};
+
+export const formatCost = (usd: number): string => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+export const formatLatency = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
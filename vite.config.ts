@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => {
     build: {
       outDir: 'dist-multillmcollaborationH'
     },
+    server: {
+      // The URL fetch proxy in main.py (`python main.py`).
+      proxy: { '/api': 'http://127.0.0.1:8080' }
+    },
     define: {
       'process.env.API_KEY': JSON.stringify(env.API_KEY),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -0,0 +1,129 @@
+/**
+ * Copyright (c) 2025 Multi-LLM Collaboration System
+ * Licensed under the MIT License. See the LICENSE file in the project root.
+ */
+
+// --- WEB PAGES ---
+// Browsers can't read most sites directly because of CORS, so pages come through the small
+// fetch proxy in main.py. Readable text is extracted here, in the browser. The fetcher is a
+// plain function so tests and offline demos can swap in a stand-in that never hits the network.
+
+export interface FetchedPage {
+  url: string;
+  /** Where redirects ended up. */
+  finalUrl: string;
+  contentType: string;
+  body: string;
+}
+
+export type PageFetcher = (url: string, signal?: AbortSignal) => Promise<FetchedPage>;
+
+/** A page reduced to what goes into prompts. Cached, so it stays small and JSON-friendly. */
+export interface ExtractedPage {
+  url: string;
+  finalUrl: string;
+  title: string;
+  text: string;
+  fetchedAt: number;
+}
+
+export class FetchError extends Error {
+  url: string;
+  /** HTTP status from the proxy; 0 when the proxy itself couldn't be reached. */
+  status: number;
+
+  constructor(url: string, status: number, message: string) {
+    super(message);
+    this.name = 'FetchError';
+    this.url = url;
+    this.status = status;
+  }
+}
+
+export const DEFAULT_PROXY_ENDPOINT = '/api/fetch';
+
+/** Cached pages older than this are fetched again. */
+export const PAGE_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+/** Total page text kept in the cache, well under the ~5 MB local storage quota shared with the rest of the app. */
+const PAGE_CACHE_MAX_CHARS = 1_000_000;
+/** Keeps one huge page from filling the cache; the context budget trims further anyway. */
+const MAX_PAGE_TEXT_CHARS = 200_000;
+const FETCH_TIMEOUT_MS = 20_000;
+
+export const createProxyFetcher = (endpoint: string = DEFAULT_PROXY_ENDPOINT): PageFetcher => async (url, signal) => {
+  let response: Response;
+  try {
+    response = await fetch(`${endpoint}?url=${encodeURIComponent(url)}`, {
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)]) : AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (e) {
+    throw new FetchError(url, 0, `The fetch proxy could not be reached: ${(e as Error).message}`);
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data) {
+    throw new FetchError(url, response.status, data?.error || `The fetch proxy answered HTTP ${response.status}.`);
+  }
+  return { url, finalUrl: data.final_url || url, contentType: data.content_type || '', body: data.body || '' };
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Serves `pages` (HTML keyed by URL) without any network. Other URLs get a short placeholder
+ * page, so a discussion can run end to end offline.
+ */
+export const createStandInFetcher = (pages: Record<string, string> = {}): PageFetcher => async url => ({
+  url,
+  finalUrl: url,
+  contentType: 'text/html',
+  body: pages[url] ?? `<html><head><title>Stand-in for ${escapeHtml(url)}</title></head><body><article><p>Stand-in content for ${escapeHtml(url)}. No network request was made, so this page says nothing about the real one.</p></article></body></html>`,
+});
+
+const BOILERPLATE = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form, button, [hidden], [aria-hidden="true"]';
+const TEXT_BLOCKS = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, figcaption, th, td';
+
+const collapse = (text: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+/** The article text of an HTML page; other text types are passed through. */
+export const extractReadableText = ({ contentType, body }: FetchedPage): { title: string; text: string } => {
+  if (!/html|xml/.test(contentType)) return { title: '', text: body.trim() };
+  const doc = new DOMParser().parseFromString(body, 'text/html');
+  const title = collapse(doc.querySelector('meta[property="og:title"]')?.getAttribute('content') || doc.title || doc.querySelector('h1')?.textContent || '');
+  doc.querySelectorAll(BOILERPLATE).forEach(el => el.remove());
+
+  // The article body is usually the <article>/<main> with the most paragraph text.
+  const paragraphLength = (el: Element) => Array.from(el.querySelectorAll('p')).reduce((sum, p) => sum + collapse(p.textContent).length, 0);
+  const root = Array.from(doc.querySelectorAll('article, main, [role="main"]'))
+    .sort((a, b) => paragraphLength(b) - paragraphLength(a))[0] || doc.body;
+  if (!root) return { title, text: '' };
+
+  // Skip blocks nested in another block (a <p> inside an <li>) so no text appears twice.
+  const blocks = Array.from(root.querySelectorAll(TEXT_BLOCKS)).filter(el => !el.parentElement?.closest(TEXT_BLOCKS));
+  const text = blocks.length > 0
+    ? blocks.map(el => el.tagName === 'PRE' ? (el.textContent || '').trim() : collapse(el.textContent)).filter(Boolean).join('\n\n')
+    : collapse(root.textContent);
+  return { title, text };
+};
+
+/** Fetches `url` and extracts its text. Throws FetchError when there is nothing usable. */
+export const loadPage = async (url: string, fetcher: PageFetcher, signal?: AbortSignal): Promise<ExtractedPage> => {
+  const fetched = await fetcher(url, signal);
+  const { title, text } = extractReadableText(fetched);
+  if (!text) throw new FetchError(url, 200, 'The page was fetched, but no readable text was found on it.');
+  return { url, finalUrl: fetched.finalUrl, title: title || fetched.finalUrl, text: text.slice(0, MAX_PAGE_TEXT_CHARS), fetchedAt: Date.now() };
+};
+
+export const isFresh = (page: ExtractedPage, now: number = Date.now()): boolean => now - page.fetchedAt < PAGE_CACHE_TTL_MS;
+
+/** Drops stale pages and keeps the most recently fetched ones, up to `maxChars` of text in all. */
+export const prunePageCache = (cache: Record<string, ExtractedPage>, maxChars: number = PAGE_CACHE_MAX_CHARS): Record<string, ExtractedPage> => {
+  let total = 0;
+  return Object.fromEntries(Object.entries(cache)
+    .filter(([, page]) => isFresh(page))
+    .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+    .filter(([, page]) => (total += page.text.length) <= maxChars));
+};
+
+/** Characters of page text in the cache, the measure `prunePageCache` caps. */
+export const pageCacheSize = (cache: Record<string, ExtractedPage>): number =>
+  Object.values(cache).reduce((sum, page) => sum + page.text.length, 0);